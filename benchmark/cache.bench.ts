@@ -1,5 +1,5 @@
 import Benchmark from 'benchmark';
-import { LRUCache } from "../src/pkg/cache";
+import { LRUCache, createCache, EvictionPolicy } from "../src/pkg/cache";
 
 /**
  * Benchmark Suite for LRUCache
@@ -277,6 +277,39 @@ suite.add('LRUCache with stats tracking', function() {
   //const stats = cache.getStats();
 });
 
+// ============================================================================
+// Benchmark 6: Eviction Policy Comparison (Zipf Distribution)
+// ============================================================================
+console.log('');
+console.log('Benchmark 6: Eviction Policies - Zipf Distribution');
+console.log('Same workload as Benchmark 4, swapping the policy via createCache');
+console.log('-'.repeat(80));
+
+const POLICIES: EvictionPolicy[] = ['lru', 'lfu', 'arc', 'w-tinylfu'];
+
+/**
+ * Runs the Zipf read-through workload against a cache
+ */
+function runZipfWorkload(policy: EvictionPolicy, operations: number) {
+  const cache = createCache<number, string>(policy, CACHE_SIZE);
+
+  for (let i = 0; i < operations; i++) {
+    const key = zipfKey(CACHE_SIZE * 2);
+
+    if (cache.get(key) === undefined) {
+      cache.put(key, `value-${key}`);
+    }
+  }
+
+  return cache.getStats();
+}
+
+for (const policy of POLICIES) {
+  suite.add(`createCache('${policy}') (Zipf pattern)`, function() {
+    runZipfWorkload(policy, OPERATIONS);
+  });
+}
+
 // ============================================================================
 // Run the benchmark suite
 // ============================================================================
@@ -309,6 +342,12 @@ suite
     console.log('   - Memory leak prevention via explicit node cleanup');
     console.log('   - Type-safe with full TypeScript support');
     console.log('');
+    console.log('5. Hit Rate by Eviction Policy (Zipf, 100,000 operations):');
+    for (const policy of POLICIES) {
+      const stats = runZipfWorkload(policy, 100_000);
+      console.log(`   - ${policy.padEnd(10)} ${(stats.hitRate * 100).toFixed(2)}%`);
+    }
+    console.log('');
     console.log('📊 Use Case Recommendations:');
     console.log('');
     console.log('- API Response Caching: Use LRUCache for automatic eviction');
@@ -0,0 +1,213 @@
+import Benchmark from 'benchmark';
+import { Deque, DoublyLinkedList, Queue } from "../src/index";
+
+/**
+ * Benchmark Suite for Queue and Deque
+ * 
+ * Compares the ring-buffer Queue/Deque against DoublyLinkedList and
+ * native JavaScript Array for FIFO and double-ended workloads.
+ */
+
+const suite = new Benchmark.Suite();
+
+// Test data sizes
+const MEDIUM_SIZE = 1000;
+const LARGE_SIZE = 10000;
+
+console.log('='.repeat(80));
+console.log('Aethel.TS Queue/Deque Benchmark Suite');
+console.log('='.repeat(80));
+console.log('');
+
+// ============================================================================
+// Benchmark 1: Fill then Drain (FIFO)
+// ============================================================================
+console.log('Benchmark 1: Enqueue then Dequeue All (1000 elements)');
+console.log('-'.repeat(80));
+
+suite.add('Queue#enqueue/dequeue', function() {
+  const queue = new Queue<number>();
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    queue.enqueue(i);
+  }
+  
+  while (!queue.isEmpty()) {
+    queue.dequeue();
+  }
+});
+
+suite.add('DoublyLinkedList#addLast/removeFirst', function() {
+  const list = new DoublyLinkedList<number>();
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    list.addLast(i);
+  }
+  
+  while (!list.isEmpty()) {
+    list.removeFirst();
+  }
+});
+
+suite.add('Array#push/shift', function() {
+  const arr: number[] = [];
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    arr.push(i);
+  }
+  
+  while (arr.length > 0) {
+    arr.shift();
+  }
+});
+
+// ============================================================================
+// Benchmark 2: Large Fill then Drain (FIFO)
+// ============================================================================
+console.log('');
+console.log('Benchmark 2: Enqueue then Dequeue All (10000 elements)');
+console.log('-'.repeat(80));
+
+suite.add('Queue#enqueue/dequeue (large)', function() {
+  const queue = new Queue<number>();
+  for (let i = 0; i < LARGE_SIZE; i++) {
+    queue.enqueue(i);
+  }
+  
+  while (!queue.isEmpty()) {
+    queue.dequeue();
+  }
+});
+
+suite.add('DoublyLinkedList#addLast/removeFirst (large)', function() {
+  const list = new DoublyLinkedList<number>();
+  for (let i = 0; i < LARGE_SIZE; i++) {
+    list.addLast(i);
+  }
+  
+  while (!list.isEmpty()) {
+    list.removeFirst();
+  }
+});
+
+suite.add('Array#push/shift (large)', function() {
+  const arr: number[] = [];
+  for (let i = 0; i < LARGE_SIZE; i++) {
+    arr.push(i);
+  }
+  
+  while (arr.length > 0) {
+    arr.shift();
+  }
+});
+
+// ============================================================================
+// Benchmark 3: Steady-State Sliding Window
+// ============================================================================
+console.log('');
+console.log('Benchmark 3: Steady-State Window (1000 resident, 1000 enqueue+dequeue)');
+console.log('-'.repeat(80));
+
+const steadyQueue = new Queue<number>();
+const steadyList = new DoublyLinkedList<number>();
+const steadyArray: number[] = [];
+for (let i = 0; i < MEDIUM_SIZE; i++) {
+  steadyQueue.enqueue(i);
+  steadyList.addLast(i);
+  steadyArray.push(i);
+}
+
+suite.add('Queue#enqueue+dequeue (steady)', function() {
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    steadyQueue.enqueue(i);
+    steadyQueue.dequeue();
+  }
+});
+
+suite.add('DoublyLinkedList#addLast+removeFirst (steady)', function() {
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    steadyList.addLast(i);
+    steadyList.removeFirst();
+  }
+});
+
+suite.add('Array#push+shift (steady)', function() {
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    steadyArray.push(i);
+    steadyArray.shift();
+  }
+});
+
+// ============================================================================
+// Benchmark 4: Head Insertion (addFirst vs unshift)
+// ============================================================================
+console.log('');
+console.log('Benchmark 4: Sequential Insertion at Head (1000 elements)');
+console.log('-'.repeat(80));
+
+suite.add('Deque#addFirst', function() {
+  const deque = new Deque<number>();
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    deque.addFirst(i);
+  }
+});
+
+suite.add('DoublyLinkedList#addFirst', function() {
+  const list = new DoublyLinkedList<number>();
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    list.addFirst(i);
+  }
+});
+
+suite.add('Array#unshift', function() {
+  const arr: number[] = [];
+  for (let i = 0; i < MEDIUM_SIZE; i++) {
+    arr.unshift(i);
+  }
+});
+
+// ============================================================================
+// Benchmark 5: Random Access (at)
+// ============================================================================
+console.log('');
+console.log('Benchmark 5: Random Access by Index (1000 elements)');
+console.log('-'.repeat(80));
+
+const indexedDeque = new Deque<number>();
+const indexedList = new DoublyLinkedList<number>();
+for (let i = 0; i < MEDIUM_SIZE; i++) {
+  indexedDeque.addLast(i);
+  indexedList.addLast(i);
+}
+
+suite.add('Deque#at', function() {
+  let sum = 0;
+  for (let i = 0; i < MEDIUM_SIZE; i += 10) {
+    sum += indexedDeque.at(i)!;
+  }
+});
+
+suite.add('DoublyLinkedList#at', function() {
+  let sum = 0;
+  for (let i = 0; i < MEDIUM_SIZE; i += 10) {
+    sum += indexedList.at(i)!;
+  }
+});
+
+// ============================================================================
+// Run the benchmark suite
+// ============================================================================
+suite
+  .on('cycle', function(event: Benchmark.Event) {
+    console.log(String(event.target));
+  })
+  .on('complete', function(this: Benchmark.Suite) {
+    console.log('');
+    console.log('='.repeat(80));
+    console.log('Benchmark Complete');
+    console.log('='.repeat(80));
+    console.log('');
+    console.log('Key Findings:');
+    console.log('- Queue dequeues in O(1) without the O(n) reindexing of Array#shift');
+    console.log('- The ring buffer allocates no node per element, unlike DoublyLinkedList');
+    console.log('- Deque#at is O(1); DoublyLinkedList#at walks the list');
+    console.log('');
+  })
+  .run({ async: false });
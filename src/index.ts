@@ -10,7 +10,17 @@ export * from "./pkg/interfaces/index";
 
 // Utility types
 export * from "./types";
+export * from "./pkg/compare/index";
+
+// Errors
+export * from "./pkg/errors/index";
 
 // Data structures
 export * from "./pkg/list/index";
-export * from "./pkg/cache/index"
\ No newline at end of file
+export * from "./pkg/queue/index";
+export * from "./pkg/heap/index";
+export * from "./pkg/hash/index";
+export * from "./pkg/tree/index";
+export * from "./pkg/cache/index"
+export * from "./pkg/seq/index"
+export * from "./pkg/stream/index"
\ No newline at end of file
@@ -0,0 +1,326 @@
+import { CacheStats, ICache, ICollection } from "../interfaces"
+
+/**
+ * ARC (Adaptive Replacement Cache) implementation.
+ *
+ * Balances recency and frequency by splitting resident entries into two LRU
+ * lists and remembering the keys recently evicted from each (ghost lists):
+ * - T1: entries seen once recently
+ * - T2: entries seen at least twice recently
+ * - B1/B2: keys (no values) recently evicted from T1/T2
+ *
+ * A hit in a ghost list shows which side was evicted too eagerly, and shifts
+ * the target size `p` of T1 toward it. No tuning parameter is required.
+ *
+ * Each list is a Map, whose insertion order doubles as the LRU order
+ * (first key = least recent), so all list operations stay O(1).
+ *
+ * Performance Characteristics:
+ * - get(key): O(1)
+ * - put(key, value): O(1)
+ * - delete(key): O(1)
+ * - Memory: up to 2 * capacity keys (capacity values)
+ *
+ * @see Megiddo & Modha, "ARC: A Self-Tuning, Low Overhead Replacement Cache" (FAST '03)
+ *
+ * @example
+ * ```typescript
+ * const cache = new ARCCache<string, number>(100);
+ * cache.put('a', 1);
+ * cache.get('a'); // Promotes 'a' from T1 to T2
+ * ```
+ */
+export class ARCCache<K, V> implements ICollection<V>, ICache<K, V> {
+  private capacity: number;
+  private p = 0;
+  private t1 = new Map<K, V>();
+  private t2 = new Map<K, V>();
+  private b1 = new Set<K>();
+  private b2 = new Set<K>();
+
+  // Statistics for monitoring
+  private _hits = 0;
+  private _misses = 0;
+  private _evictions = 0;
+
+  constructor(capacity: number) {
+    if (capacity <= 0) {
+      throw new Error('ARCCache capacity must be greater than 0');
+    }
+    this.capacity = capacity;
+  }
+
+  /**
+   * Returns the current number of items in the cache.
+   */
+  get size(): number {
+    return this.t1.size + this.t2.size;
+  }
+
+  /**
+   * Returns the maximum capacity of the cache.
+   */
+  get maxCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Returns cache hit rate (0.0 to 1.0).
+   */
+  get hitRate(): number {
+    const total = this._hits + this._misses;
+    return total === 0 ? 0 : this._hits / total;
+  }
+
+  /**
+   * Checks if the cache is empty.
+   */
+  isEmpty(): boolean {
+    return this.size === 0;
+  }
+
+  /**
+   * Checks if the cache is at full capacity.
+   */
+  isFull(): boolean {
+    return this.size >= this.capacity;
+  }
+
+  /**
+   * Retrieves a value from the cache.
+   * A hit promotes the entry to the MRU end of T2.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to look up
+   * @returns The cached value, or undefined if not found
+   */
+  get(key: K): V | undefined {
+    if (this.t1.has(key)) {
+      const value = this.t1.get(key) as V;
+      this.t1.delete(key);
+      this.t2.set(key, value);
+      this._hits++;
+      return value;
+    }
+
+    if (this.t2.has(key)) {
+      const value = this.t2.get(key) as V;
+      this.t2.delete(key);
+      this.t2.set(key, value);
+      this._hits++;
+      return value;
+    }
+
+    this._misses++;
+    return undefined;
+  }
+
+  /**
+   * Inserts or updates a key-value pair in the cache.
+   * Updating a resident key counts as an access. Inserting a key found in a
+   * ghost list adapts the T1 target size before making room.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to insert/update
+   * @param value - The value to store
+   * @returns The ARCCache instance for chaining
+   */
+  put(key: K, value: V): this {
+    // Case I: resident hit
+    if (this.t1.has(key)) {
+      this.t1.delete(key);
+      this.t2.set(key, value);
+      return this;
+    }
+    if (this.t2.has(key)) {
+      this.t2.delete(key);
+      this.t2.set(key, value);
+      return this;
+    }
+
+    // Case II: ghost hit in B1, favor recency
+    if (this.b1.has(key)) {
+      const delta = Math.max(this.b2.size / this.b1.size, 1);
+      this.p = Math.min(this.capacity, this.p + delta);
+      if (this.size >= this.capacity) this.replace(false);
+      this.b1.delete(key);
+      this.t2.set(key, value);
+      return this;
+    }
+
+    // Case III: ghost hit in B2, favor frequency
+    if (this.b2.has(key)) {
+      const delta = Math.max(this.b1.size / this.b2.size, 1);
+      this.p = Math.max(0, this.p - delta);
+      if (this.size >= this.capacity) this.replace(true);
+      this.b2.delete(key);
+      this.t2.set(key, value);
+      return this;
+    }
+
+    // Case IV: complete miss
+    const l1 = this.t1.size + this.b1.size;
+    if (l1 >= this.capacity) {
+      if (this.t1.size < this.capacity) {
+        this.removeOldest(this.b1);
+        if (this.size >= this.capacity) this.replace(false);
+      } else {
+        // B1 is empty: drop the LRU of T1 without remembering it
+        this.removeOldest(this.t1);
+        this._evictions++;
+      }
+    } else {
+      const total = l1 + this.t2.size + this.b2.size;
+      if (total >= this.capacity) {
+        if (total >= 2 * this.capacity) {
+          this.removeOldest(this.b2);
+        }
+        if (this.size >= this.capacity) {
+          this.replace(false);
+        }
+      }
+    }
+
+    this.t1.set(key, value);
+    return this;
+  }
+
+  /**
+   * Checks if a key exists in the cache.
+   * Does NOT update access order.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to check
+   */
+  has(key: K): boolean {
+    return this.t1.has(key) || this.t2.has(key);
+  }
+
+  /**
+   * Peeks at a value without updating access order.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to peek at
+   */
+  peek(key: K): V | undefined {
+    return this.t1.has(key) ? this.t1.get(key) : this.t2.get(key);
+  }
+
+  /**
+   * Removes a key-value pair from the cache.
+   * The key is also forgotten by the ghost lists.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to delete
+   * @returns true if the key was resident, false otherwise
+   */
+  delete(key: K): boolean {
+    this.b1.delete(key);
+    this.b2.delete(key);
+    return this.t1.delete(key) || this.t2.delete(key);
+  }
+
+  /**
+   * Removes all items and ghost entries from the cache.
+   * Resets the adaptation target and all statistics.
+   */
+  clear(): void {
+    this.t1.clear();
+    this.t2.clear();
+    this.b1.clear();
+    this.b2.clear();
+    this.p = 0;
+    this._hits = 0;
+    this._misses = 0;
+    this._evictions = 0;
+  }
+
+  /**
+   * Resets statistics without clearing the cache.
+   */
+  resetStats(): void {
+    this._hits = 0;
+    this._misses = 0;
+    this._evictions = 0;
+  }
+
+  /**
+   * Checks if the cache contains a specific value.
+   * Note: This is O(n) operation.
+   *
+   * @param value - The value to search for
+   */
+  contains(value: V): boolean {
+    for (const cached of this.t1.values()) {
+      if (cached === value) return true;
+    }
+    for (const cached of this.t2.values()) {
+      if (cached === value) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Converts the cache to an array of values (T1 then T2, each LRU to MRU).
+   */
+  toArray(): V[] {
+    return [...this.t1.values(), ...this.t2.values()];
+  }
+
+  /**
+   * Returns cache statistics for monitoring and debugging.
+   */
+  getStats(): CacheStats & {
+    recentSize: number;
+    frequentSize: number;
+    recentTarget: number;
+    ghostSize: number;
+  } {
+    const size = this.size;
+    return {
+      size,
+      capacity: this.capacity,
+      hits: this._hits,
+      misses: this._misses,
+      evictions: this._evictions,
+      hitRate: this.hitRate,
+      utilization: size / this.capacity,
+      recentSize: this.t1.size,
+      frequentSize: this.t2.size,
+      recentTarget: this.p,
+      ghostSize: this.b1.size + this.b2.size,
+    };
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Evicts the LRU entry of T1 or T2 into its ghost list, steered by `p`.
+   *
+   * @param inB2 - Whether the requested key was found in B2
+   */
+  private replace(inB2: boolean): void {
+    const t1Size = this.t1.size;
+    const fromT1 =
+      t1Size > 0 && (t1Size > this.p || (inB2 && t1Size === this.p) || this.t2.size === 0);
+    const list = fromT1 ? this.t1 : this.t2;
+    const ghost = fromT1 ? this.b1 : this.b2;
+
+    const oldest = list.keys().next();
+    if (oldest.done) return;
+
+    list.delete(oldest.value);
+    ghost.add(oldest.value);
+    this._evictions++;
+  }
+
+  /**
+   * Removes the least recent key of a list, if any.
+   */
+  private removeOldest(list: Map<K, V> | Set<K>): void {
+    const oldest = list.keys().next();
+    if (!oldest.done) list.delete(oldest.value);
+  }
+}
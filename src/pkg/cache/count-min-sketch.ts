@@ -0,0 +1,132 @@
+/**
+ * Per-row seeds used to derive independent indexes from one hash.
+ */
+const SEEDS = [0x97cb3127, 0x3c6ef372, 0xb7e15162, 0x2545f491];
+
+/**
+ * Largest value a 4-bit counter can hold.
+ */
+const MAX_COUNT = 15;
+
+/**
+ * Largest table width. Caps memory at 128 MiB however large the capacity is,
+ * and keeps the width from overflowing 32-bit shifts.
+ */
+const MAX_WIDTH = 1 << 26;
+
+/**
+ * Count-min sketch with 4-bit saturating counters and periodic aging.
+ * Counters are packed two to a byte.
+ *
+ * Estimates how often a hash has been seen using a fixed amount of memory.
+ * Estimates never undercount, and overcount only on hash collisions.
+ * After `sampleSize` increments every counter is halved, so old popularity
+ * fades and the sketch tracks recent frequency (the TinyLFU "reset").
+ *
+ * Performance Characteristics:
+ * - increment(hash): O(depth)
+ * - estimate(hash): O(depth)
+ * - Memory: depth * width / 2 bytes
+ *
+ * @example
+ * ```typescript
+ * const sketch = new CountMinSketch(1024);
+ * sketch.increment(defaultHash('user:1'));
+ * sketch.estimate(defaultHash('user:1')); // 1
+ * ```
+ */
+export class CountMinSketch {
+  private readonly width: number;
+  private readonly mask: number;
+  private readonly table: Uint8Array;
+  private readonly sampleSize: number;
+  private additions = 0;
+
+  /**
+   * @param capacity - Expected number of distinct hot items; sizes the table (capped at 2^26 counters per row)
+   * @param sampleSize - Increments between agings (defaults to 10 * capacity)
+   */
+  constructor(capacity: number, sampleSize: number = Math.min(capacity, MAX_WIDTH) * 10) {
+    if (capacity <= 0) {
+      throw new Error('CountMinSketch capacity must be greater than 0');
+    }
+
+    // Round up to a power of two so indexes can be masked instead of divided
+    const target = Math.min(capacity, MAX_WIDTH);
+    let width = 16;
+    while (width < target) width <<= 1;
+
+    this.width = width;
+    this.mask = width - 1;
+    this.table = new Uint8Array((width * SEEDS.length) >>> 1);
+    this.sampleSize = Math.max(1, Math.floor(sampleSize));
+  }
+
+  /**
+   * Records one occurrence of the hash.
+   * Time Complexity: O(depth)
+   */
+  increment(hash: number): void {
+    let added = false;
+
+    for (let row = 0; row < SEEDS.length; row++) {
+      const index = this.indexOf(hash, row);
+      const byte = index >>> 1;
+      const shift = (index & 1) << 2;
+      if (((this.table[byte]! >>> shift) & MAX_COUNT) < MAX_COUNT) {
+        this.table[byte]! += 1 << shift;
+        added = true;
+      }
+    }
+
+    if (added && ++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  /**
+   * Returns the estimated occurrence count of the hash (0 to 15).
+   * Time Complexity: O(depth)
+   */
+  estimate(hash: number): number {
+    let min = MAX_COUNT;
+
+    for (let row = 0; row < SEEDS.length; row++) {
+      const index = this.indexOf(hash, row);
+      const count = (this.table[index >>> 1]! >>> ((index & 1) << 2)) & MAX_COUNT;
+      if (count < min) min = count;
+    }
+
+    return min;
+  }
+
+  /**
+   * Clears every counter.
+   */
+  clear(): void {
+    this.table.fill(0);
+    this.additions = 0;
+  }
+
+  /**
+   * Halves every counter so that stale popularity decays.
+   */
+  private age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      // Shift both counters at once; the mask drops the bit the high one shifts into the low one
+      this.table[i] = (this.table[i]! >>> 1) & 0x77;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  /**
+   * Maps a hash to a counter index in the given row.
+   */
+  private indexOf(hash: number, row: number): number {
+    let h = Math.imul(hash ^ SEEDS[row]!, 0x9e3779b1);
+    h ^= h >>> 15;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    return row * this.width + (h & this.mask);
+  }
+}
@@ -0,0 +1,43 @@
+import { ICache } from "../interfaces"
+import { ARCCache } from "./arc-cache"
+import { LFUCache } from "./lfu-cache"
+import { LRUCache } from "./lru-cache"
+import { WTinyLFUCache } from "./w-tinylfu-cache"
+
+/**
+ * Eviction policies available through createCache.
+ * - 'lru': least recently used (LRUCache)
+ * - 'lfu': least frequently used (LFUCache)
+ * - 'arc': adaptive replacement (ARCCache)
+ * - 'w-tinylfu': window TinyLFU with sketch-based admission (WTinyLFUCache)
+ */
+export type EvictionPolicy = 'lru' | 'lfu' | 'arc' | 'w-tinylfu';
+
+/**
+ * Creates a cache with the given eviction policy.
+ * All policies share the ICache surface, so the policy can come from configuration.
+ *
+ * @example
+ * ```typescript
+ * const cache = createCache<string, Response>(config.cachePolicy, 1000);
+ * cache.put('/users', response);
+ * console.log(cache.getStats().hitRate);
+ * ```
+ *
+ * @param policy - The eviction policy to use
+ * @param capacity - Maximum number of entries; must be finite for 'w-tinylfu'
+ */
+export function createCache<K, V>(policy: EvictionPolicy, capacity: number): ICache<K, V> {
+  switch (policy) {
+    case 'lru':
+      return new LRUCache<K, V>(capacity);
+    case 'lfu':
+      return new LFUCache<K, V>(capacity);
+    case 'arc':
+      return new ARCCache<K, V>(capacity);
+    case 'w-tinylfu':
+      return new WTinyLFUCache<K, V>(capacity);
+    default:
+      throw new Error(`Unknown cache eviction policy: ${String(policy)}`);
+  }
+}
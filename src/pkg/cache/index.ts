@@ -2,4 +2,44 @@
  * Cache data structures
  */
 
-export { LRUCache } from "./lru-cache";
\ No newline at end of file
+export { LRUCache } from "./lru-cache";
+export type {
+  LRUCacheOptions,
+  LRUCachePutOptions,
+  LRUCacheLoadOptions,
+  LRUCacheRestoreOptions,
+  CacheLoader,
+  OversizedEntryPolicy,
+  EvictionReason,
+  LRUCacheEvents,
+  LRUCacheEvent,
+} from "./lru-cache";
+export { LFUCache } from "./lfu-cache";
+export { ARCCache } from "./arc-cache";
+export { WTinyLFUCache } from "./w-tinylfu-cache";
+export type { WTinyLFUCacheOptions } from "./w-tinylfu-cache";
+export { CountMinSketch } from "./count-min-sketch";
+export { createCache } from "./create-cache";
+export type { EvictionPolicy } from "./create-cache";
+export {
+  LRU_CACHE_SNAPSHOT_VERSION,
+  identityCodec,
+  dateCodec,
+  bufferCodec,
+  mapCodec,
+} from "./snapshot";
+export type {
+  SnapshotCodec,
+  SnapshotEntry,
+  SnapshotStats,
+  LRUCacheSnapshot,
+  LRUCacheSnapshotInput,
+  LRUCacheSnapshotOptions,
+} from "./snapshot";
+export { memoize, memoizeAsync, Memoize, hashArguments, argumentsEqual } from "./memoize";
+export type {
+  MemoizeOptions,
+  MemoizedControls,
+  MemoizedFunction,
+  MemoizedAsyncFunction,
+} from "./memoize";
@@ -0,0 +1,119 @@
+import { EqualityFn, HashFn, defaultEquality, defaultHash } from "../../types"
+
+/**
+ * The subset of Map used by caches to index entries by key.
+ */
+export interface KeyMap<K, V> {
+  readonly size: number;
+  get(key: K): V | undefined;
+  set(key: K, value: V): unknown;
+  has(key: K): boolean;
+  delete(key: K): boolean;
+  clear(): void;
+  keys(): IterableIterator<K>;
+  values(): IterableIterator<V>;
+}
+
+/**
+ * Creates a key index: a plain Map (SameValueZero keys) when neither
+ * function is given, otherwise a HashedKeyMap whose missing function
+ * defaults to defaultHash/defaultEquality.
+ */
+export function createKeyMap<K, V>(hashFn?: HashFn<K>, equalityFn?: EqualityFn<K>): KeyMap<K, V> {
+  if (hashFn === undefined && equalityFn === undefined) {
+    return new Map<K, V>();
+  }
+  return new HashedKeyMap<K, V>(hashFn ?? defaultHash, equalityFn ?? defaultEquality);
+}
+
+/**
+ * Map that looks keys up by hash and equality instead of identity.
+ *
+ * Every stored key is canonical: lookups with an equal key resolve to the
+ * first instance stored, which then indexes an ordinary Map. Insertion
+ * order is therefore preserved exactly as in a Map.
+ *
+ * Performance Characteristics:
+ * - get/set/has/delete: O(1) average, plus one hash and bucket scan
+ */
+class HashedKeyMap<K, V> implements KeyMap<K, V> {
+  private entries = new Map<K, V>();
+  private buckets = new Map<number, K[]>();
+
+  constructor(
+    private hashFn: HashFn<K>,
+    private equalityFn: EqualityFn<K>
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const canonical = this.canonicalKey(key, this.hashFn(key));
+    return canonical === undefined ? undefined : this.entries.get(canonical.key);
+  }
+
+  set(key: K, value: V): this {
+    const hash = this.hashFn(key);
+    const canonical = this.canonicalKey(key, hash);
+
+    if (canonical !== undefined) {
+      this.entries.set(canonical.key, value);
+      return this;
+    }
+
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) {
+      this.buckets.set(hash, [key]);
+    } else {
+      bucket.push(key);
+    }
+    this.entries.set(key, value);
+    return this;
+  }
+
+  has(key: K): boolean {
+    return this.canonicalKey(key, this.hashFn(key)) !== undefined;
+  }
+
+  delete(key: K): boolean {
+    const hash = this.hashFn(key);
+    const canonical = this.canonicalKey(key, hash);
+    if (canonical === undefined) return false;
+
+    const bucket = canonical.bucket;
+    bucket.splice(canonical.index, 1);
+    if (bucket.length === 0) this.buckets.delete(hash);
+    return this.entries.delete(canonical.key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.buckets.clear();
+  }
+
+  keys(): IterableIterator<K> {
+    return this.entries.keys();
+  }
+
+  values(): IterableIterator<V> {
+    return this.entries.values();
+  }
+
+  /**
+   * Finds the stored key equal to `key`, if any.
+   */
+  private canonicalKey(key: K, hash: number): { key: K; bucket: K[]; index: number } | undefined {
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) return undefined;
+
+    for (let index = 0; index < bucket.length; index++) {
+      const candidate = bucket[index] as K;
+      if (candidate === key || this.equalityFn(candidate, key)) {
+        return { key: candidate, bucket, index };
+      }
+    }
+    return undefined;
+  }
+}
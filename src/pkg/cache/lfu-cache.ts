@@ -0,0 +1,393 @@
+import { CacheStats, ICache, ICollection } from "../interfaces"
+
+/**
+ * Node in an LFU frequency bucket.
+ * Stores the entry and the bucket holding it, whose frequency is the entry's
+ * access count, with prev/next pointers for O(1) relinking.
+ */
+class LFUNode<K, V> {
+  constructor(
+    public key: K,
+    public value: V,
+    public bucket: FrequencyBucket<K, V>,
+    public prev: LFUNode<K, V> | null = null,
+    public next: LFUNode<K, V> | null = null
+  ) {}
+}
+
+/**
+ * Doubly linked list of nodes sharing the same access frequency.
+ * Most recently used at the HEAD, least recently used at the TAIL.
+ * Buckets are themselves linked in ascending frequency order through prev/next.
+ */
+class FrequencyBucket<K, V> {
+  head: LFUNode<K, V> | null = null;
+  tail: LFUNode<K, V> | null = null;
+  size = 0;
+  prev: FrequencyBucket<K, V> | null = null;
+  next: FrequencyBucket<K, V> | null = null;
+
+  constructor(readonly frequency: number) {}
+
+  addToHead(node: LFUNode<K, V>): void {
+    node.prev = null;
+    node.next = this.head;
+
+    if (this.head !== null) {
+      this.head.prev = node;
+    }
+
+    this.head = node;
+
+    if (this.tail === null) {
+      this.tail = node;
+    }
+
+    this.size++;
+  }
+
+  remove(node: LFUNode<K, V>): void {
+    if (node.prev !== null) {
+      node.prev.next = node.next;
+    } else {
+      this.head = node.next;
+    }
+
+    if (node.next !== null) {
+      node.next.prev = node.prev;
+    } else {
+      this.tail = node.prev;
+    }
+
+    node.prev = null;
+    node.next = null;
+    this.size--;
+  }
+}
+
+/**
+ * O(1) LFU (Least Frequently Used) Cache implementation.
+ *
+ * Entries are grouped into buckets by access frequency, and the buckets form
+ * a list in ascending frequency order. The lowest frequency is always the
+ * first bucket, so the victim is found in O(1), also after deletes.
+ * Ties within a frequency are broken by recency (least recently used first).
+ *
+ * Performance Characteristics:
+ * - get(key): O(1)
+ * - put(key, value): O(1)
+ * - delete(key): O(1)
+ *
+ * Use Cases:
+ * - Workloads with a stable set of hot keys
+ * - Skewed (Zipf-like) access patterns where recency alone misleads
+ *
+ * @example
+ * ```typescript
+ * const cache = new LFUCache<string, number>(2);
+ * cache.put('a', 1);
+ * cache.put('b', 2);
+ * cache.get('a'); // 'a' now has frequency 2
+ * cache.put('c', 3); // Evicts 'b' (least frequently used)
+ * ```
+ */
+export class LFUCache<K, V> implements ICollection<V>, ICache<K, V> {
+  private capacity: number;
+  private cache: Map<K, LFUNode<K, V>>;
+  private lowest: FrequencyBucket<K, V> | null = null;
+
+  // Statistics for monitoring
+  private _hits = 0;
+  private _misses = 0;
+  private _evictions = 0;
+
+  constructor(capacity: number) {
+    if (capacity <= 0) {
+      throw new Error('LFUCache capacity must be greater than 0');
+    }
+    this.capacity = capacity;
+    this.cache = new Map();
+  }
+
+  /**
+   * Returns the current number of items in the cache.
+   */
+  get size(): number {
+    return this.cache.size;
+  }
+
+  /**
+   * Returns the maximum capacity of the cache.
+   */
+  get maxCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Returns cache hit rate (0.0 to 1.0).
+   */
+  get hitRate(): number {
+    const total = this._hits + this._misses;
+    return total === 0 ? 0 : this._hits / total;
+  }
+
+  /**
+   * Checks if the cache is empty.
+   */
+  isEmpty(): boolean {
+    return this.cache.size === 0;
+  }
+
+  /**
+   * Checks if the cache is at full capacity.
+   */
+  isFull(): boolean {
+    return this.cache.size >= this.capacity;
+  }
+
+  /**
+   * Retrieves a value from the cache and increments its frequency.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to look up
+   * @returns The cached value, or undefined if not found
+   */
+  get(key: K): V | undefined {
+    const node = this.cache.get(key);
+
+    if (!node) {
+      this._misses++;
+      return undefined;
+    }
+
+    this._hits++;
+    this.touch(node);
+
+    return node.value;
+  }
+
+  /**
+   * Inserts or updates a key-value pair in the cache.
+   * Updating an existing key counts as an access.
+   * If the cache is full, evicts the least frequently used item.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to insert/update
+   * @param value - The value to store
+   * @returns The LFUCache instance for chaining
+   */
+  put(key: K, value: V): this {
+    const existing = this.cache.get(key);
+
+    if (existing) {
+      existing.value = value;
+      this.touch(existing);
+      return this;
+    }
+
+    if (this.cache.size >= this.capacity) {
+      this.evictLeastFrequent();
+    }
+
+    let bucket = this.lowest;
+    if (bucket === null || bucket.frequency !== 1) {
+      bucket = new FrequencyBucket<K, V>(1);
+      this.linkBucket(bucket, null);
+    }
+
+    const node = new LFUNode(key, value, bucket);
+    this.cache.set(key, node);
+    bucket.addToHead(node);
+
+    return this;
+  }
+
+  /**
+   * Checks if a key exists in the cache.
+   * Does NOT update frequency.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to check
+   */
+  has(key: K): boolean {
+    return this.cache.has(key);
+  }
+
+  /**
+   * Peeks at a value without updating frequency.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to peek at
+   */
+  peek(key: K): V | undefined {
+    return this.cache.get(key)?.value;
+  }
+
+  /**
+   * Returns the access frequency of a key, or 0 if it is not cached.
+   *
+   * @param key - The key to inspect
+   */
+  frequencyOf(key: K): number {
+    return this.cache.get(key)?.bucket.frequency ?? 0;
+  }
+
+  /**
+   * Removes a key-value pair from the cache.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to delete
+   * @returns true if the key existed, false otherwise
+   */
+  delete(key: K): boolean {
+    const node = this.cache.get(key);
+
+    if (!node) return false;
+
+    this.unlink(node);
+
+    return true;
+  }
+
+  /**
+   * Removes all items from the cache.
+   * Resets all statistics.
+   */
+  clear(): void {
+    // Break circular references to prevent memory leaks
+    let bucket = this.lowest;
+    while (bucket !== null) {
+      let current = bucket.head;
+      while (current !== null) {
+        const next = current.next;
+        current.prev = null;
+        current.next = null;
+        current = next;
+      }
+      const nextBucket = bucket.next;
+      bucket.prev = null;
+      bucket.next = null;
+      bucket = nextBucket;
+    }
+
+    this.cache.clear();
+    this.lowest = null;
+    this._hits = 0;
+    this._misses = 0;
+    this._evictions = 0;
+  }
+
+  /**
+   * Resets statistics without clearing the cache.
+   */
+  resetStats(): void {
+    this._hits = 0;
+    this._misses = 0;
+    this._evictions = 0;
+  }
+
+  /**
+   * Checks if the cache contains a specific value.
+   * Note: This is O(n) operation.
+   *
+   * @param value - The value to search for
+   */
+  contains(value: V): boolean {
+    for (const node of this.cache.values()) {
+      if (node.value === value) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Converts the cache to an array of values (in no particular order).
+   */
+  toArray(): V[] {
+    const result: V[] = [];
+    for (const node of this.cache.values()) {
+      result.push(node.value);
+    }
+    return result;
+  }
+
+  /**
+   * Returns cache statistics for monitoring and debugging.
+   */
+  getStats(): CacheStats & { minFrequency: number } {
+    return {
+      size: this.cache.size,
+      capacity: this.capacity,
+      hits: this._hits,
+      misses: this._misses,
+      evictions: this._evictions,
+      hitRate: this.hitRate,
+      utilization: this.cache.size / this.capacity,
+      minFrequency: this.lowest?.frequency ?? 0,
+    };
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Moves a node to the bucket for its next frequency, creating that bucket
+   * right after the current one if needed.
+   */
+  private touch(node: LFUNode<K, V>): void {
+    const bucket = node.bucket;
+    let target = bucket.next;
+    if (target === null || target.frequency !== bucket.frequency + 1) {
+      target = new FrequencyBucket<K, V>(bucket.frequency + 1);
+      this.linkBucket(target, bucket);
+    }
+
+    this.removeFromBucket(node);
+    node.bucket = target;
+    target.addToHead(node);
+  }
+
+  /**
+   * Removes a node from its bucket and the key map.
+   */
+  private unlink(node: LFUNode<K, V>): void {
+    this.removeFromBucket(node);
+    this.cache.delete(node.key);
+  }
+
+  /**
+   * Removes a node from its bucket, dropping the bucket once it is empty.
+   */
+  private removeFromBucket(node: LFUNode<K, V>): void {
+    const bucket = node.bucket;
+    bucket.remove(node);
+    if (bucket.size !== 0) return;
+
+    if (bucket.prev !== null) bucket.prev.next = bucket.next;
+    else this.lowest = bucket.next;
+    if (bucket.next !== null) bucket.next.prev = bucket.prev;
+    bucket.prev = null;
+    bucket.next = null;
+  }
+
+  /**
+   * Links a bucket into the frequency list after another, or first when after is null.
+   */
+  private linkBucket(bucket: FrequencyBucket<K, V>, after: FrequencyBucket<K, V> | null): void {
+    bucket.prev = after;
+    bucket.next = after === null ? this.lowest : after.next;
+    if (bucket.next !== null) bucket.next.prev = bucket;
+    if (after === null) this.lowest = bucket;
+    else after.next = bucket;
+  }
+
+  /**
+   * Evicts the least recently used node of the lowest frequency.
+   */
+  private evictLeastFrequent(): void {
+    if (this.lowest === null) return;
+
+    this.unlink(this.lowest.tail!);
+    this._evictions++;
+  }
+}
@@ -1,4 +1,35 @@
-import { ICollection } from "../interfaces"
+import { ICache, ICollection, IKeyedIterable, IMutableIterator, IReadonlyCache } from "../interfaces"
+import { ConcurrentModificationError } from "../errors"
+import { EqualityFn, HashFn } from "../../types"
+import { KeyMap, createKeyMap } from "./key-map"
+import { ReadonlyCacheView } from "./readonly-cache-view"
+import {
+  LRU_CACHE_SNAPSHOT_VERSION,
+  LRUCacheSnapshot,
+  LRUCacheSnapshotInput,
+  LRUCacheSnapshotOptions,
+  SnapshotCodec,
+  SnapshotEntry,
+  normalizeSnapshot,
+} from "./snapshot"
+
+/**
+ * A load in progress for a single key, shared by every concurrent caller.
+ */
+interface InFlightLoad<K, V> {
+  key: K;
+  promise: Promise<V>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * A cached loader failure (negative cache entry).
+ */
+interface FailedLoad {
+  error: unknown;
+  expiresAt: number;
+}
 
 /**
  * Node in the LRU cache doubly linked list.
@@ -8,11 +39,188 @@ class LRUNode<K, V> {
   constructor(
     public key: K,
     public value: V,
+    public expiresAt: number = 0,
+    public refreshAt: number = 0,
+    public weight: number = 0,
+    public tags: readonly string[] | null = null,
     public prev: LRUNode<K, V> | null = null,
     public next: LRUNode<K, V> | null = null
   ) {}
 }
 
+/**
+ * Why an entry left the cache (or had its value replaced).
+ * - 'evicted': dropped from the tail to satisfy capacity or weight limits
+ * - 'expired': its TTL elapsed
+ * - 'deleted': removed explicitly via delete()
+ * - 'replaced': its value was overwritten by put()
+ * - 'cleared': removed by clear()
+ */
+export type EvictionReason = 'evicted' | 'expired' | 'deleted' | 'replaced' | 'cleared';
+
+/**
+ * Listener signatures for LRUCache events, keyed by event name.
+ */
+export interface LRUCacheEvents<K, V> {
+  /** An entry was removed or its value replaced. */
+  evict: (key: K, value: V, reason: EvictionReason) => void;
+  /** get() found a live entry. */
+  hit: (key: K, value: V) => void;
+  /** get() found no live entry. */
+  miss: (key: K) => void;
+  /** put() stored an entry. */
+  set: (key: K, value: V) => void;
+}
+
+/**
+ * Name of an event emitted by LRUCache.
+ */
+export type LRUCacheEvent = keyof LRUCacheEvents<unknown, unknown>;
+
+/**
+ * Loads the value for a key on a cache miss.
+ * The signal is aborted once every caller waiting on the load has aborted.
+ */
+export type CacheLoader<K, V> = (key: K, signal: AbortSignal) => Promise<V> | V;
+
+/**
+ * How LRUCache.put handles a single entry heavier than maxWeight.
+ * - 'throw': throw an error and leave the cache untouched
+ * - 'skip': do not store the entry (an existing entry for the key is removed)
+ */
+export type OversizedEntryPolicy = 'throw' | 'skip';
+
+/**
+ * Options for constructing an LRUCache.
+ */
+export interface LRUCacheOptions<K, V> {
+  /**
+   * Default time-to-live in milliseconds applied to every entry.
+   * 0 (the default) means entries never expire.
+   */
+  ttl?: number;
+
+  /**
+   * Clock used for expiry checks, in milliseconds.
+   * Defaults to Date.now; inject a fake clock to test expiry deterministically.
+   */
+  now?: () => number;
+
+  /**
+   * Upper bound on the summed weight of all entries, as measured by sizeOf.
+   * Applies in addition to the entry-count capacity.
+   */
+  maxWeight?: number;
+
+  /**
+   * Computes the weight (e.g. byte size) of an entry. Required with maxWeight.
+   * Must return a non-negative finite number.
+   */
+  sizeOf?: (key: K, value: V) => number;
+
+  /**
+   * Handling of entries heavier than maxWeight. Defaults to 'throw'.
+   */
+  oversizedEntry?: OversizedEntryPolicy;
+
+  /**
+   * Called whenever an entry leaves the cache or its value is replaced,
+   * after the cache has been updated. Use it to release resources held by values.
+   */
+  onEvict?: (key: K, value: V, reason: EvictionReason) => void;
+
+  /**
+   * Default loader used by getOrLoad when none is passed.
+   */
+  loader?: CacheLoader<K, V>;
+
+  /**
+   * Time in milliseconds to remember a loader failure, during which getOrLoad
+   * rethrows it without calling the loader again.
+   * 0 (the default) means failures are never cached.
+   */
+  negativeTtl?: number;
+
+  /**
+   * Time in milliseconds past an entry's expiry during which get() still
+   * returns the stale value while the loader refreshes it in the background.
+   * Requires the constructor-level loader. 0 (the default) disables it.
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * Fraction of an entry's TTL (0 to 1) at the end of its lifetime during
+   * which a get() triggers a background reload before it expires.
+   * E.g. 0.2 refreshes entries accessed in the last 20% of their TTL.
+   * Requires the constructor-level loader. 0 (the default) disables it.
+   */
+  refreshAhead?: number;
+
+  /**
+   * Hashes keys so that equal keys, not just identical ones, find the same
+   * entry. Setting keyHashFn or keyEquality enables value-object keys;
+   * the other defaults to defaultHash/defaultEquality.
+   * Use structuralHash with structuralEquals for array or plain-object keys,
+   * or the defaults for keys implementing the Hashable protocol.
+   */
+  keyHashFn?: HashFn<K>;
+
+  /**
+   * Equality for keys, paired with keyHashFn. Equal keys must hash the same.
+   */
+  keyEquality?: EqualityFn<K>;
+}
+
+/**
+ * Per-entry options for LRUCache.put.
+ */
+export interface LRUCachePutOptions {
+  /**
+   * Time-to-live in milliseconds for this entry, overriding the default TTL.
+   * 0 means the entry never expires.
+   */
+  ttl?: number;
+
+  /**
+   * Tags for group invalidation via invalidateTag().
+   * When omitted on an update, the entry keeps its existing tags.
+   */
+  tags?: readonly string[];
+}
+
+/**
+ * Per-call options for LRUCache.getOrLoad.
+ */
+export interface LRUCacheLoadOptions {
+  /**
+   * Aborts this caller's wait. The load itself is aborted only when
+   * every caller sharing it has aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Time-to-live in milliseconds for the loaded entry, overriding the default TTL.
+   */
+  ttl?: number;
+}
+
+/**
+ * Options for LRUCache.fromSnapshot: constructor options plus decoding codecs.
+ */
+export interface LRUCacheRestoreOptions<K, V> extends LRUCacheOptions<K, V> {
+  /**
+   * Capacity of the restored cache. Defaults to the snapshot's capacity;
+   * required when restoring a bare entries array.
+   */
+  capacity?: number;
+
+  /** Decodes keys. Must match the codec used when taking the snapshot. */
+  keyCodec?: SnapshotCodec<K>;
+
+  /** Decodes values. Must match the codec used when taking the snapshot. */
+  valueCodec?: SnapshotCodec<V>;
+}
+
 /**
  * High-performance LRU (Least Recently Used) Cache implementation.
  * 
@@ -22,7 +230,11 @@ class LRUNode<K, V> {
  * Strategy:
  * - Most recently used items are kept at the HEAD
  * - Least recently used items are at the TAIL
- * - When capacity is exceeded, the TAIL node is evicted
+ * - When capacity (or maxWeight) is exceeded, TAIL nodes are evicted
+ * - Entries past their TTL are removed lazily on get/peek/has,
+ *   or eagerly via purgeExpired()
+ * - With a loader, stale entries can be served while refreshing in the background
+ * - Entries can be tagged and invalidated as a group via invalidateTag()
  * 
  * Performance Characteristics:
  * - get(key): O(1)
@@ -44,26 +256,111 @@ class LRUNode<K, V> {
  * cache.put('c', 3);
  * cache.get('a'); // Returns 1, 'a' is now most recent
  * cache.put('d', 4); // Evicts 'b' (least recently used)
+ *
+ * const sessions = new LRUCache<string, string>(100, { ttl: 60_000 });
+ * sessions.put('token', 'user-1');
+ * sessions.put('otp', '1234', { ttl: 5_000 }); // Per-entry TTL
+ *
+ * const blobs = new LRUCache<string, Buffer>(Infinity, {
+ *   maxWeight: 64 * 1024 * 1024,
+ *   sizeOf: (_key, value) => value.byteLength,
+ *   onEvict: (key, value, reason) => pool.release(value),
+ * });
+ * blobs.on('miss', (key) => metrics.increment('cache.miss'));
+ *
+ * const users = new LRUCache<string, User>(1000, {
+ *   loader: (id, signal) => db.findUser(id, { signal }),
+ * });
+ * await users.getOrLoad('42'); // Concurrent misses share a single load
+ *
+ * await writeFile('cache.json', JSON.stringify(users)); // Uses toJSON()
+ * const restored = LRUCache.fromSnapshot<string, User>(JSON.parse(await readFile('cache.json', 'utf8')));
  * ```
  */
-export class LRUCache<K, V> implements ICollection<V> {
+export class LRUCache<K, V> implements ICollection<V>, IKeyedIterable<K, V>, ICache<K, V> {
   private capacity: number;
-  private cache: Map<K, LRUNode<K, V>>;
+  private cache: KeyMap<K, LRUNode<K, V>>;
+  private keyHashFn: HashFn<K> | undefined;
+  private keyEquality: EqualityFn<K> | undefined;
   private head: LRUNode<K, V> | null = null;
   private tail: LRUNode<K, V> | null = null;
   private _size = 0;
+  private modCount = 0;
+  private defaultTtl: number;
+  private now: () => number;
+  private weightLimit: number;
+  private sizeOf: ((key: K, value: V) => number) | null;
+  private oversizedEntry: OversizedEntryPolicy;
+  private _totalWeight = 0;
+  private onEvict: ((key: K, value: V, reason: EvictionReason) => void) | null;
+  private listeners: {
+    [E in LRUCacheEvent]?: LRUCacheEvents<K, V>[E][];
+  } = {};
+  private loader: CacheLoader<K, V> | null;
+  private negativeTtl: number;
+  private staleWindow: number;
+  private refreshAhead: number;
+  private inFlight: KeyMap<K, InFlightLoad<K, V>>;
+  private failures: KeyMap<K, FailedLoad>;
+  private tagIndex = new Map<string, Set<LRUNode<K, V>>>();
 
   // Statistics for monitoring
   private _hits = 0;
   private _misses = 0;
   private _evictions = 0;
+  private _expirations = 0;
+  private _loadSuccesses = 0;
+  private _loadFailures = 0;
+  private _totalLoadTime = 0;
+  private _staleHits = 0;
+  private _refreshes = 0;
+  private _refreshFailures = 0;
 
-  constructor(capacity: number) {
+  constructor(capacity: number, options: LRUCacheOptions<K, V> = {}) {
     if (capacity <= 0) {
       throw new Error('LRUCache capacity must be greater than 0');
     }
+    const ttl = options.ttl ?? 0;
+    if (!(ttl >= 0)) {
+      throw new Error('LRUCache ttl must be a non-negative number');
+    }
+    const negativeTtl = options.negativeTtl ?? 0;
+    if (!(negativeTtl >= 0)) {
+      throw new Error('LRUCache negativeTtl must be a non-negative number');
+    }
+    const staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    if (!(staleWhileRevalidate >= 0)) {
+      throw new Error('LRUCache staleWhileRevalidate must be a non-negative number');
+    }
+    const refreshAhead = options.refreshAhead ?? 0;
+    if (!(refreshAhead >= 0 && refreshAhead < 1)) {
+      throw new Error('LRUCache refreshAhead must be between 0 (inclusive) and 1 (exclusive)');
+    }
+    if (options.maxWeight !== undefined) {
+      if (!(options.maxWeight > 0)) {
+        throw new Error('LRUCache maxWeight must be greater than 0');
+      }
+      if (!options.sizeOf) {
+        throw new Error('LRUCache sizeOf is required when maxWeight is set');
+      }
+    }
     this.capacity = capacity;
-    this.cache = new Map();
+    this.keyHashFn = options.keyHashFn;
+    this.keyEquality = options.keyEquality;
+    this.cache = createKeyMap(options.keyHashFn, options.keyEquality);
+    this.inFlight = createKeyMap(options.keyHashFn, options.keyEquality);
+    this.failures = createKeyMap(options.keyHashFn, options.keyEquality);
+    this.defaultTtl = ttl;
+    this.now = options.now ?? Date.now;
+    this.weightLimit = options.maxWeight ?? Infinity;
+    this.sizeOf = options.maxWeight !== undefined ? options.sizeOf! : null;
+    this.oversizedEntry = options.oversizedEntry ?? 'throw';
+    this.onEvict = options.onEvict ?? null;
+    this.loader = options.loader ?? null;
+    this.negativeTtl = negativeTtl;
+    // Stale values are only worth keeping if something can refresh them
+    this.staleWindow = this.loader !== null ? staleWhileRevalidate : 0;
+    this.refreshAhead = this.loader !== null ? refreshAhead : 0;
   }
 
   /**
@@ -80,6 +377,20 @@ export class LRUCache<K, V> implements ICollection<V> {
     return this.capacity;
   }
 
+  /**
+   * Returns the maximum total weight (Infinity when weighting is disabled).
+   */
+  get maxWeight(): number {
+    return this.weightLimit;
+  }
+
+  /**
+   * Returns the summed weight of all entries (0 when weighting is disabled).
+   */
+  get totalWeight(): number {
+    return this._totalWeight;
+  }
+
   /**
    * Returns cache hit count (for monitoring).
    */
@@ -101,6 +412,42 @@ export class LRUCache<K, V> implements ICollection<V> {
     return this._evictions;
   }
 
+  /**
+   * Returns expiration count (for monitoring).
+   * Expired entries are counted separately from capacity evictions.
+   */
+  get expirations(): number {
+    return this._expirations;
+  }
+
+  /**
+   * Returns the number of loads that completed successfully (for monitoring).
+   */
+  get loadSuccesses(): number {
+    return this._loadSuccesses;
+  }
+
+  /**
+   * Returns the number of loads whose loader threw or rejected (for monitoring).
+   */
+  get loadFailures(): number {
+    return this._loadFailures;
+  }
+
+  /**
+   * Returns the number of hits served from stale entries (for monitoring).
+   */
+  get staleHits(): number {
+    return this._staleHits;
+  }
+
+  /**
+   * Returns the number of background refreshes that failed (for monitoring).
+   */
+  get refreshFailures(): number {
+    return this._refreshFailures;
+  }
+
   /**
    * Returns cache hit rate (0.0 to 1.0).
    */
@@ -117,15 +464,19 @@ export class LRUCache<K, V> implements ICollection<V> {
   }
 
   /**
-   * Checks if the cache is at full capacity.
+   * Checks if the cache is at full capacity or weight budget.
    */
   isFull(): boolean {
-    return this._size >= this.capacity;
+    return this._size >= this.capacity || this._totalWeight >= this.weightLimit;
   }
 
   /**
    * Retrieves a value from the cache.
    * Moves the accessed item to the head (most recently used).
+   * Expired entries are removed and reported as a miss.
+   * With staleWhileRevalidate, a recently expired entry is returned instead
+   * and reloaded in the background; with refreshAhead, an entry near the end
+   * of its TTL is reloaded in the background before it expires.
    * Time Complexity: O(1)
    * 
    * @param key - The key to look up
@@ -134,15 +485,27 @@ export class LRUCache<K, V> implements ICollection<V> {
   get(key: K): V | undefined {
     const node = this.cache.get(key);
     
-    if (!node) {
+    if (!node || this.expireIfStale(node)) {
       this._misses++;
+      this.listeners.miss?.forEach((listener) => listener(key));
       return undefined;
     }
 
+    if (node.expiresAt !== 0 && (this.staleWindow !== 0 || node.refreshAt !== 0)) {
+      const now = this.now();
+      if (node.expiresAt <= now) {
+        this._staleHits++;
+        this.refreshInBackground(key);
+      } else if (node.refreshAt !== 0 && node.refreshAt <= now) {
+        this.refreshInBackground(key);
+      }
+    }
+
     this._hits++;
     
     // Move accessed node to head (most recently used)
     this.moveToHead(node);
+    this.listeners.hit?.forEach((listener) => listener(key, node.value));
     
     return node.value;
   }
@@ -150,45 +513,94 @@ export class LRUCache<K, V> implements ICollection<V> {
   /**
    * Inserts or updates a key-value pair in the cache.
    * If the key exists, updates the value and moves to head.
-   * If the cache is full, evicts the least recently used item.
+   * If the cache is full, evicts least recently used items until both the
+   * capacity and the weight budget are satisfied.
+   * The entry's TTL is (re)started and its weight recomputed on every put.
    * Time Complexity: O(1)
    * 
    * @param key - The key to insert/update
    * @param value - The value to store
+   * @param options - Per-entry options such as ttl
    * @returns The LRUCache instance for chaining
    */
-  put(key: K, value: V): this {
+  put(key: K, value: V, options?: LRUCachePutOptions): this {
+    const ttl = options?.ttl ?? this.defaultTtl;
+    if (!(ttl >= 0)) {
+      throw new Error('LRUCache ttl must be a non-negative number');
+    }
+    const expiresAt = ttl > 0 ? this.now() + ttl : 0;
+    const refreshAt = ttl > 0 && this.refreshAhead > 0 ? expiresAt - ttl * this.refreshAhead : 0;
+    const weight = this.weigh(key, value);
+
+    if (weight > this.weightLimit && this.oversizedEntry === 'throw') {
+      throw new Error(
+        `LRUCache entry weight ${weight} exceeds maxWeight ${this.weightLimit}`
+      );
+    }
+
+    // Only a write that goes ahead may detach an in-flight load
+    this.supersedeLoad(key);
+
     let node = this.cache.get(key);
 
+    if (weight > this.weightLimit) {
+      // The stored value is superseded, so it must not survive the skip
+      if (node) this.unlink(node, 'deleted');
+      return this;
+    }
+
+    let replaced: V | undefined;
+    let isReplace = false;
+
     if (node) {
       // Update existing node
+      if (node.value !== value) {
+        replaced = node.value;
+        isReplace = true;
+      }
       node.value = value;
+      node.expiresAt = expiresAt;
+      node.refreshAt = refreshAt;
+      this._totalWeight += weight - node.weight;
+      node.weight = weight;
+      if (options?.tags !== undefined) {
+        this.untag(node);
+        this.tag(node, options.tags);
+      }
       this.moveToHead(node);
     } else {
       // Create new node
-      node = new LRUNode(key, value);
+      node = new LRUNode(key, value, expiresAt, refreshAt, weight);
       this.cache.set(key, node);
       this.addToHead(node);
       this._size++;
+      this._totalWeight += weight;
+      if (options?.tags !== undefined) this.tag(node, options.tags);
+    }
 
-      // Evict if over capacity
-      if (this._size > this.capacity) {
-        this.evictTail();
-      }
+    // Evict until within capacity and weight budget.
+    // The new node sits at the head and fits the budget, so it is never evicted.
+    while (this._size > this.capacity || this._totalWeight > this.weightLimit) {
+      this.evictTail();
     }
 
+    if (isReplace) this.notifyEvict(key, replaced as V, 'replaced');
+    this.listeners.set?.forEach((listener) => listener(key, value));
+
     return this;
   }
 
   /**
    * Checks if a key exists in the cache.
-   * Does NOT update access order.
+   * Does NOT update access order. Expired entries are removed;
+   * stale entries still servable under staleWhileRevalidate count as present.
    * Time Complexity: O(1)
    * 
    * @param key - The key to check
    */
   has(key: K): boolean {
-    return this.cache.has(key);
+    const node = this.cache.get(key);
+    return node !== undefined && !this.expireIfStale(node);
   }
 
   /**
@@ -201,25 +613,152 @@ export class LRUCache<K, V> implements ICollection<V> {
   delete(key: K): boolean {
     const node = this.cache.get(key);
     
+    this.supersedeLoad(key);
+
     if (!node) return false;
 
-    this.removeNode(node);
-    this.cache.delete(key);
-    this._size--;
+    this.unlink(node, 'deleted');
     
     return true;
   }
 
+  /**
+   * Removes every entry tagged with the given tag.
+   * Fires eviction hooks with reason 'deleted'.
+   * Time Complexity: O(m) where m is the number of tagged entries
+   * 
+   * @param tag - The tag to invalidate
+   * @returns The number of entries removed
+   */
+  invalidateTag(tag: string): number {
+    const nodes = this.tagIndex.get(tag);
+    if (nodes === undefined) return 0;
+
+    // Detach the set first so unlinking does not mutate it mid-iteration
+    this.tagIndex.delete(tag);
+
+    let removed = 0;
+    for (const node of nodes) {
+      // A hook fired by an earlier removal may already have removed this node
+      if (this.cache.get(node.key) !== node) continue;
+      this.unlink(node, 'deleted');
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Removes every entry matching the predicate.
+   * All entries are tested before any is removed, so eviction hooks that
+   * change the cache cannot derail the scan.
+   * Fires eviction hooks with reason 'deleted'.
+   * Time Complexity: O(n)
+   * 
+   * @param predicate - Called with each value and key, MRU to LRU
+   * @returns The number of entries removed
+   */
+  deleteWhere(predicate: (value: V, key: K) => boolean): number {
+    const matches: LRUNode<K, V>[] = [];
+    for (let current = this.head; current !== null; current = current.next) {
+      if (predicate(current.value, current.key)) matches.push(current);
+    }
+
+    let removed = 0;
+    for (const node of matches) {
+      // A hook fired by an earlier removal may already have removed this node
+      if (this.cache.get(node.key) !== node) continue;
+      this.unlink(node, 'deleted');
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Returns the tags of an entry, or undefined if the key is not cached.
+   * 
+   * @param key - The key to inspect
+   */
+  tagsOf(key: K): readonly string[] | undefined {
+    const node = this.cache.get(key);
+    if (node === undefined) return undefined;
+    return node.tags ?? [];
+  }
+
   /**
    * Peeks at a value without updating access order.
    * Useful for inspection without affecting LRU ordering.
+   * Expired entries are removed; stale entries are returned without a refresh.
    * Time Complexity: O(1)
    * 
    * @param key - The key to peek at
    */
   peek(key: K): V | undefined {
     const node = this.cache.get(key);
-    return node?.value;
+    if (!node || this.expireIfStale(node)) return undefined;
+    return node.value;
+  }
+
+  /**
+   * Returns the cached value, or loads it on a miss and stores the result.
+   * Concurrent calls for the same key share a single in-flight load.
+   * Rejections are not cached unless negativeTtl is configured.
+   * 
+   * @param key - The key to look up
+   * @param loader - Loader to use on a miss; defaults to the constructor's loader
+   * @param options - Abort signal and TTL for the loaded entry
+   * @returns The cached or loaded value
+   */
+  getOrLoad(
+    key: K,
+    loader: CacheLoader<K, V> | undefined = this.loader ?? undefined,
+    options: LRUCacheLoadOptions = {}
+  ): Promise<V> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    if (this.has(key)) return Promise.resolve(this.get(key) as V);
+    this._misses++;
+    this.listeners.miss?.forEach((listener) => listener(key));
+
+    const failure = this.failures.get(key);
+    if (failure !== undefined) {
+      if (failure.expiresAt > this.now()) return Promise.reject(failure.error);
+      this.failures.delete(key);
+    }
+
+    let load = this.inFlight.get(key);
+    if (load === undefined) {
+      if (loader === undefined) {
+        return Promise.reject(new Error('LRUCache getOrLoad requires a loader'));
+      }
+      load = this.startLoad(key, loader, options.ttl);
+    }
+
+    return this.awaitLoad(load, signal);
+  }
+
+  /**
+   * Removes every expired entry from the cache.
+   * Entries are otherwise only expired lazily when accessed, so iteration
+   * methods and size may include stale entries until this is called.
+   * Time Complexity: O(n)
+   * 
+   * @returns The number of entries removed
+   */
+  purgeExpired(): number {
+    const now = this.now();
+    let removed = 0;
+    let current = this.tail;
+    while (current !== null) {
+      const prev = current.prev;
+      if (current.expiresAt !== 0 && current.expiresAt + this.staleWindow <= now) {
+        this._expirations++;
+        this.unlink(current, 'expired');
+        removed++;
+      }
+      current = prev;
+    }
+    return removed;
   }
 
   /**
@@ -238,27 +777,74 @@ export class LRUCache<K, V> implements ICollection<V> {
     return [this.tail.key, this.tail.value];
   }
 
+  /**
+   * Registers a listener for a cache event.
+   * 
+   * @param event - 'evict', 'hit', 'miss' or 'set'
+   * @param listener - Called synchronously when the event occurs
+   * @returns The LRUCache instance for chaining
+   */
+  on<E extends LRUCacheEvent>(event: E, listener: LRUCacheEvents<K, V>[E]): this {
+    // Copy-on-write so listeners can be added or removed while emitting
+    const current = this.listeners[event] as LRUCacheEvents<K, V>[E][] | undefined;
+    this.listeners[event] = (current ? [...current, listener] : [listener]) as typeof this.listeners[E];
+    return this;
+  }
+
+  /**
+   * Removes a previously registered listener.
+   * 
+   * @param event - The event the listener was registered for
+   * @param listener - The listener to remove
+   * @returns The LRUCache instance for chaining
+   */
+  off<E extends LRUCacheEvent>(event: E, listener: LRUCacheEvents<K, V>[E]): this {
+    const current = this.listeners[event] as LRUCacheEvents<K, V>[E][] | undefined;
+    if (current === undefined) return this;
+
+    const remaining = current.filter((registered) => registered !== listener);
+    this.listeners[event] = (remaining.length > 0 ? remaining : undefined) as typeof this.listeners[E];
+    return this;
+  }
+
   /**
    * Removes all items from the cache.
    * Resets all statistics.
+   * Fires eviction hooks with reason 'cleared' for every removed entry.
+   * Loads still in flight complete for their callers but are not stored.
    */
   clear(): void {
-    // Break circular references to prevent memory leaks
     let current = this.head;
-    while (current !== null) {
-      const next = current.next;
-      current.prev = null;
-      current.next = null;
-      current = next;
-    }
 
+    this.modCount++;
     this.cache.clear();
+    this.inFlight.clear();
+    this.failures.clear();
+    this.tagIndex.clear();
     this.head = null;
     this.tail = null;
     this._size = 0;
+    this._totalWeight = 0;
     this._hits = 0;
     this._misses = 0;
     this._evictions = 0;
+    this._expirations = 0;
+    this._loadSuccesses = 0;
+    this._loadFailures = 0;
+    this._totalLoadTime = 0;
+    this._staleHits = 0;
+    this._refreshes = 0;
+    this._refreshFailures = 0;
+
+    // Break circular references to prevent memory leaks.
+    // Hooks run after the cache is already empty so they observe a consistent state.
+    while (current !== null) {
+      const next = current.next;
+      current.prev = null;
+      current.next = null;
+      this.notifyEvict(current.key, current.value, 'cleared');
+      current = next;
+    }
   }
 
   /**
@@ -268,6 +854,13 @@ export class LRUCache<K, V> implements ICollection<V> {
     this._hits = 0;
     this._misses = 0;
     this._evictions = 0;
+    this._expirations = 0;
+    this._loadSuccesses = 0;
+    this._loadFailures = 0;
+    this._totalLoadTime = 0;
+    this._staleHits = 0;
+    this._refreshes = 0;
+    this._refreshFailures = 0;
   }
 
   /**
@@ -298,45 +891,148 @@ export class LRUCache<K, V> implements ICollection<V> {
   }
 
   /**
-   * Returns an array of [key, value] entries.
+   * Iterator implementation for for...of loops and spreading.
+   * Yields values from most recently used to least recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
+   */
+  [Symbol.iterator](): IMutableIterator<V> {
+    return this.iterate(false, (node) => node.value);
+  }
+
+  /**
+   * Lazily yields [key, value] entries.
    * Ordered from most recently used to least recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
    */
-  entries(): [K, V][] {
-    const result: [K, V][] = [];
-    let current = this.head;
-    while (current !== null) {
-      result.push([current.key, current.value]);
-      current = current.next;
-    }
-    return result;
+  entries(): IMutableIterator<[K, V]> {
+    return this.iterate(false, (node) => [node.key, node.value]);
   }
 
   /**
-   * Returns an array of all keys.
+   * Lazily yields all keys.
    * Ordered from most recently used to least recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
    */
-  keys(): K[] {
-    const result: K[] = [];
-    let current = this.head;
-    while (current !== null) {
-      result.push(current.key);
-      current = current.next;
+  keys(): IMutableIterator<K> {
+    return this.iterate(false, (node) => node.key);
+  }
+
+  /**
+   * Lazily yields all values.
+   * Ordered from most recently used to least recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
+   */
+  values(): IMutableIterator<V> {
+    return this.iterate(false, (node) => node.value);
+  }
+
+  /**
+   * Lazily yields [key, value] entries from least recently used to most recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
+   */
+  entriesReverse(): IMutableIterator<[K, V]> {
+    return this.iterate(true, (node) => [node.key, node.value]);
+  }
+
+  /**
+   * Lazily yields all keys from least recently used to most recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
+   */
+  keysReverse(): IMutableIterator<K> {
+    return this.iterate(true, (node) => node.key);
+  }
+
+  /**
+   * Lazily yields all values from least recently used to most recently used.
+   * Throws a ConcurrentModificationError if the cache is modified during iteration,
+   * except through the iterator's own remove().
+   */
+  valuesReverse(): IMutableIterator<V> {
+    return this.iterate(true, (node) => node.value);
+  }
+
+  /**
+   * Async iterator for for await...of loops, yielding the same values as
+   * for...of. Fails fast if the cache is modified between steps.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<V> {
+    for (const value of this) {
+      yield value;
     }
-    return result;
   }
 
   /**
    * Iterates over each entry in the cache.
    * Ordered from most recently used to least recently used.
+   * The callback receives (value, key, index), in Map.prototype.forEach order.
+   * Throws if the callback modifies the cache; use peek() to read inside it.
    */
   forEach(callback: (value: V, key: K, index: number) => void): void {
-    let current = this.head;
     let index = 0;
-    while (current !== null) {
-      callback(current.value, current.key, index);
-      current = current.next;
+    for (const node of this.iterate(false, (node) => node)) {
+      callback(node.value, node.key, index);
+      index++;
+    }
+  }
+
+  /**
+   * Maps values to a new array.
+   * Ordered from most recently used to least recently used.
+   */
+  map<U>(callback: (value: V, key: K, index: number) => U): U[] {
+    const result: U[] = [];
+    let index = 0;
+    for (const node of this.iterate(false, (node) => node)) {
+      result.push(callback(node.value, node.key, index));
+      index++;
+    }
+    return result;
+  }
+
+  /**
+   * Filters values based on a predicate.
+   * Ordered from most recently used to least recently used.
+   */
+  filter(predicate: (value: V, key: K, index: number) => boolean): V[] {
+    const result: V[] = [];
+    let index = 0;
+    for (const node of this.iterate(false, (node) => node)) {
+      if (predicate(node.value, node.key, index)) {
+        result.push(node.value);
+      }
+      index++;
+    }
+    return result;
+  }
+
+  /**
+   * Tests if at least one value satisfies the predicate.
+   */
+  some(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    let index = 0;
+    for (const node of this.iterate(false, (node) => node)) {
+      if (predicate(node.value, node.key, index)) return true;
+      index++;
+    }
+    return false;
+  }
+
+  /**
+   * Tests if all values satisfy the predicate.
+   */
+  every(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    let index = 0;
+    for (const node of this.iterate(false, (node) => node)) {
+      if (!predicate(node.value, node.key, index)) return false;
       index++;
     }
+    return true;
   }
 
   /**
@@ -349,19 +1045,258 @@ export class LRUCache<K, V> implements ICollection<V> {
       hits: this._hits,
       misses: this._misses,
       evictions: this._evictions,
+      expirations: this._expirations,
       hitRate: this.hitRate,
       utilization: this._size / this.capacity,
+      totalWeight: this._totalWeight,
+      maxWeight: this.weightLimit,
+      loadSuccesses: this._loadSuccesses,
+      loadFailures: this._loadFailures,
+      totalLoadTime: this._totalLoadTime,
+      averageLoadTime: this.averageLoadTime(),
+      staleHits: this._staleHits,
+      refreshes: this._refreshes,
+      refreshFailures: this._refreshFailures,
     };
   }
 
+  /**
+   * Returns a zero-copy, read-only view of this cache.
+   * The view reflects later changes to the cache, but has no put(), delete()
+   * or clear(), and its lookups only peek, so reading through it never
+   * changes recency or statistics.
+   * Time Complexity: O(1)
+   */
+  asReadonly(): IReadonlyCache<K, V> {
+    return new ReadonlyCacheView(this, (key) => this.findLive(key));
+  }
+
+  /**
+   * Returns an immutable copy of the current entries, in the same recency
+   * order. Later changes to this cache do not affect the copy, and the
+   * copy's entries never expire. Expired entries are skipped.
+   * Time Complexity: O(n) to copy; size on the copy is O(1)
+   */
+  freeze(): IReadonlyCache<K, V> {
+    const copy = new LRUCache<K, V>(this.capacity, {
+      keyHashFn: this.keyHashFn,
+      keyEquality: this.keyEquality,
+    });
+    const now = this.now();
+
+    // Put from LRU to MRU so the copy ends up in the same recency order
+    let current = this.tail;
+    while (current !== null) {
+      if (current.expiresAt === 0 || current.expiresAt > now) {
+        copy.put(current.key, current.value);
+      }
+      current = current.prev;
+    }
+
+    return copy.asReadonly();
+  }
+
+  /**
+   * Captures the cache contents in a versioned, JSON-serializable snapshot.
+   * Entries keep their recency order (MRU→LRU, as entries() returns them).
+   * Expired entries are skipped.
+   * Time Complexity: O(n)
+   * 
+   * @param options - Codecs for non-JSON keys/values and what metadata to include
+   */
+  snapshot(options: LRUCacheSnapshotOptions<K, V> = {}): LRUCacheSnapshot {
+    const { keyCodec, valueCodec, includeTtl = true, includeStats = true } = options;
+    const now = this.now();
+    const entries: SnapshotEntry[] = [];
+
+    let current = this.head;
+    while (current !== null) {
+      if (current.expiresAt === 0 || current.expiresAt > now) {
+        const key = keyCodec ? keyCodec.encode(current.key) : current.key;
+        const value = valueCodec ? valueCodec.encode(current.value) : current.value;
+        entries.push(
+          includeTtl && current.expiresAt !== 0 ? [key, value, current.expiresAt] : [key, value]
+        );
+      }
+      current = current.next;
+    }
+
+    const snapshot: LRUCacheSnapshot = {
+      version: LRU_CACHE_SNAPSHOT_VERSION,
+      capacity: Number.isFinite(this.capacity) ? this.capacity : null,
+      savedAt: now,
+      entries,
+    };
+
+    if (includeStats) {
+      snapshot.stats = {
+        hits: this._hits,
+        misses: this._misses,
+        evictions: this._evictions,
+        expirations: this._expirations,
+        loadSuccesses: this._loadSuccesses,
+        loadFailures: this._loadFailures,
+        totalLoadTime: this._totalLoadTime,
+        staleHits: this._staleHits,
+        refreshes: this._refreshes,
+        refreshFailures: this._refreshFailures,
+      };
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Returns a snapshot with default options, so JSON.stringify(cache) persists it.
+   */
+  toJSON(): LRUCacheSnapshot {
+    return this.snapshot();
+  }
+
+  /**
+   * Rebuilds a cache from a snapshot, restoring recency order, expiry times
+   * and statistics. Entries that expired since the snapshot are dropped.
+   * With refreshAhead, restored entries refresh ahead of their remaining TTL.
+   * If the new capacity is smaller, the least recently used entries are evicted.
+   * Time Complexity: O(n)
+   * 
+   * @param input - A snapshot, or a bare [key, value][] array such as [...cache.entries()]
+   * @param options - Constructor options, capacity override and decoding codecs
+   */
+  static fromSnapshot<K, V>(
+    input: LRUCacheSnapshotInput,
+    options: LRUCacheRestoreOptions<K, V> = {}
+  ): LRUCache<K, V> {
+    const { capacity, keyCodec, valueCodec, ...cacheOptions } = options;
+
+    if (capacity === undefined && Array.isArray(input)) {
+      throw new Error('LRUCache.fromSnapshot requires a capacity for a bare entries array');
+    }
+
+    const snapshot = normalizeSnapshot(input);
+    const cache = new LRUCache<K, V>(capacity ?? snapshot.capacity ?? Infinity, cacheOptions);
+    const now = cache.now();
+
+    // Insert from LRU to MRU so the head ends up as the most recent entry
+    for (let i = snapshot.entries.length - 1; i >= 0; i--) {
+      const [encodedKey, encodedValue, expiresAt = 0] = snapshot.entries[i]!;
+      if (expiresAt !== 0 && expiresAt <= now) continue;
+
+      const key = keyCodec ? keyCodec.decode(encodedKey) : (encodedKey as K);
+      const value = valueCodec ? valueCodec.decode(encodedValue) : (encodedValue as V);
+      cache.put(key, value, { ttl: 0 });
+
+      const node = cache.cache.get(key);
+      if (node !== undefined) {
+        node.expiresAt = expiresAt;
+        // The original TTL is not in the snapshot, so refresh ahead of the remaining one
+        node.refreshAt = expiresAt !== 0 && cache.refreshAhead > 0
+          ? expiresAt - (expiresAt - now) * cache.refreshAhead
+          : 0;
+      }
+    }
+
+    cache.resetStats();
+    if (snapshot.stats !== undefined) {
+      cache._hits = snapshot.stats.hits;
+      cache._misses = snapshot.stats.misses;
+      cache._evictions = snapshot.stats.evictions;
+      cache._expirations = snapshot.stats.expirations;
+      cache._loadSuccesses = snapshot.stats.loadSuccesses;
+      cache._loadFailures = snapshot.stats.loadFailures;
+      cache._totalLoadTime = snapshot.stats.totalLoadTime;
+      cache._staleHits = snapshot.stats.staleHits ?? 0;
+      cache._refreshes = snapshot.stats.refreshes ?? 0;
+      cache._refreshFailures = snapshot.stats.refreshFailures ?? 0;
+    }
+
+    return cache;
+  }
+
+  /**
+   * Builds a cache from an async (or sync) source of [key, value] entries,
+   * such as a Readable stream in object mode.
+   * Entries are inserted in arrival order, so the last one is most recently used.
+   * 
+   * @example
+   * ```typescript
+   * const sessions = await LRUCache.fromAsyncIterable(sessionStream, 10_000, { ttl: 60_000 });
+   * ```
+   * 
+   * @param source - The entries to insert
+   * @param capacity - Maximum number of entries
+   * @param options - Constructor options
+   */
+  static async fromAsyncIterable<K, V>(
+    source: AsyncIterable<readonly [K, V]> | Iterable<readonly [K, V]>,
+    capacity: number,
+    options: LRUCacheOptions<K, V> = {}
+  ): Promise<LRUCache<K, V>> {
+    const cache = new LRUCache<K, V>(capacity, options);
+    for await (const [key, value] of source) {
+      cache.put(key, value);
+    }
+    return cache;
+  }
+
   // ============================================================================
   // Private Helper Methods
   // ============================================================================
 
+  /**
+   * Walks the list, failing fast if it is modified between steps.
+   * Reordering counts as a modification, since it rewires node links.
+   * The iterator's remove() deletes the last returned entry like delete().
+   */
+  private iterate<R>(reverse: boolean, project: (node: LRUNode<K, V>) => R): IMutableIterator<R> {
+    const cache = this;
+    let current = reverse ? this.tail : this.head;
+    let lastReturned: LRUNode<K, V> | null = null;
+    let expectedModCount = this.modCount;
+
+    const iterator: IMutableIterator<R> = {
+      next(): IteratorResult<R> {
+        cache.assertUnmodified(expectedModCount);
+        if (current === null) {
+          lastReturned = null;
+          return { done: true, value: undefined };
+        }
+        lastReturned = current;
+        current = reverse ? current.prev : current.next;
+        return { done: false, value: project(lastReturned) };
+      },
+      remove(): void {
+        cache.assertUnmodified(expectedModCount);
+        if (lastReturned === null) {
+          throw new Error('LRUCache iterator remove() requires a preceding next()');
+        }
+        const key = lastReturned.key;
+        lastReturned = null;
+        cache.delete(key);
+        expectedModCount = cache.modCount;
+      },
+      [Symbol.iterator]() {
+        return iterator;
+      },
+    };
+
+    return iterator;
+  }
+
+  /**
+   * Throws if the list was modified since `expectedModCount` was read.
+   */
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('LRUCache was modified during iteration');
+    }
+  }
+
   /**
    * Adds a node to the head of the list (most recently used).
    */
   private addToHead(node: LRUNode<K, V>): void {
+    this.modCount++;
     node.prev = null;
     node.next = this.head;
 
@@ -380,6 +1315,7 @@ export class LRUCache<K, V> implements ICollection<V> {
    * Removes a node from the list.
    */
   private removeNode(node: LRUNode<K, V>): void {
+    this.modCount++;
     if (node.prev !== null) {
       node.prev.next = node.next;
     } else {
@@ -407,16 +1343,226 @@ export class LRUCache<K, V> implements ICollection<V> {
     this.addToHead(node);
   }
 
+  /**
+   * Removes a node from both the list and the key map, then fires eviction hooks.
+   */
+  private unlink(node: LRUNode<K, V>, reason: EvictionReason): void {
+    this.untag(node);
+    this.removeNode(node);
+    this.cache.delete(node.key);
+    this._size--;
+    this._totalWeight -= node.weight;
+    this.notifyEvict(node.key, node.value, reason);
+  }
+
+  /**
+   * Adds a node to the index of each of its tags.
+   */
+  private tag(node: LRUNode<K, V>, tags: readonly string[]): void {
+    if (tags.length === 0) return;
+
+    node.tags = tags.slice();
+    for (const tag of tags) {
+      let nodes = this.tagIndex.get(tag);
+      if (nodes === undefined) {
+        nodes = new Set();
+        this.tagIndex.set(tag, nodes);
+      }
+      nodes.add(node);
+    }
+  }
+
+  /**
+   * Removes a node from the index of each of its tags.
+   */
+  private untag(node: LRUNode<K, V>): void {
+    if (node.tags === null) return;
+
+    for (const tag of node.tags) {
+      const nodes = this.tagIndex.get(tag);
+      if (nodes === undefined) continue;
+      nodes.delete(node);
+      if (nodes.size === 0) this.tagIndex.delete(tag);
+    }
+    node.tags = null;
+  }
+
+  /**
+   * Invokes the onEvict callback and 'evict' listeners.
+   */
+  private notifyEvict(key: K, value: V, reason: EvictionReason): void {
+    if (this.onEvict !== null) this.onEvict(key, value, reason);
+    this.listeners.evict?.forEach((listener) => listener(key, value, reason));
+  }
+
+  /**
+   * Starts a load for the key and registers it as in flight.
+   */
+  private startLoad(key: K, loader: CacheLoader<K, V>, ttl: number | undefined): InFlightLoad<K, V> {
+    const load = { key, controller: new AbortController(), waiters: 0 } as InFlightLoad<K, V>;
+
+    // Register before running the loader, which may settle synchronously
+    this.inFlight.set(key, load);
+    load.promise = this.runLoad(load, loader, ttl);
+    return load;
+  }
+
+  /**
+   * Runs the loader and records its outcome.
+   * The result is stored only if the load was not superseded by put/delete/clear.
+   */
+  private async runLoad(
+    load: InFlightLoad<K, V>,
+    loader: CacheLoader<K, V>,
+    ttl: number | undefined
+  ): Promise<V> {
+    const { key, controller } = load;
+    const startedAt = this.now();
+
+    let value: V;
+    try {
+      value = await loader(key, controller.signal);
+    } catch (error) {
+      this._loadFailures++;
+      this._totalLoadTime += this.now() - startedAt;
+      if (this.inFlight.get(key) === load) {
+        this.inFlight.delete(key);
+        if (this.negativeTtl > 0) this.rememberFailure(key, error);
+      }
+      throw error;
+    }
+
+    // Stored outside the try: a value put() rejects is still a successful load
+    this._loadSuccesses++;
+    this._totalLoadTime += this.now() - startedAt;
+    if (this.inFlight.get(key) === load) {
+      this.inFlight.delete(key);
+      this.put(key, value, ttl !== undefined ? { ttl } : undefined);
+    }
+    return value;
+  }
+
+  /**
+   * Reloads a key with the default loader unless a load is already in flight.
+   * Failures are counted and otherwise swallowed; the current value stays cached.
+   */
+  private refreshInBackground(key: K): void {
+    if (this.loader === null || this.inFlight.has(key)) return;
+
+    this._refreshes++;
+    this.startLoad(key, this.loader, undefined).promise.catch(() => {
+      this._refreshFailures++;
+    });
+  }
+
+  /**
+   * Waits on a shared load on behalf of one caller, honoring its abort signal.
+   */
+  private awaitLoad(load: InFlightLoad<K, V>, signal: AbortSignal | undefined): Promise<V> {
+    load.waiters++;
+    if (signal === undefined) return load.promise;
+
+    return new Promise<V>((resolve, reject) => {
+      const onAbort = () => {
+        load.waiters--;
+        if (load.waiters === 0) {
+          // Nobody is waiting anymore, so cancel the underlying load
+          if (this.inFlight.get(load.key) === load) this.inFlight.delete(load.key);
+          load.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      load.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Records a loader failure, bounding the negative cache to the cache capacity.
+   */
+  private rememberFailure(key: K, error: unknown): void {
+    if (this.failures.size >= this.capacity) {
+      // Map iteration order is insertion order, so the first key is the oldest
+      const oldest = this.failures.keys().next();
+      if (!oldest.done) this.failures.delete(oldest.value);
+    }
+    this.failures.set(key, { error, expiresAt: this.now() + this.negativeTtl });
+  }
+
+  /**
+   * Detaches any in-flight load and cached failure for the key,
+   * so a newer write is not overwritten by a stale load result.
+   */
+  private supersedeLoad(key: K): void {
+    if (this.inFlight.size !== 0) this.inFlight.delete(key);
+    if (this.failures.size !== 0) this.failures.delete(key);
+  }
+
+  /**
+   * Returns the mean duration of completed loads in milliseconds.
+   */
+  private averageLoadTime(): number {
+    const loads = this._loadSuccesses + this._loadFailures;
+    return loads === 0 ? 0 : this._totalLoadTime / loads;
+  }
+
+  /**
+   * Computes an entry's weight, or 0 when weighting is disabled.
+   */
+  private weigh(key: K, value: V): number {
+    if (this.sizeOf === null) return 0;
+
+    const weight = this.sizeOf(key, value);
+    if (!(weight >= 0) || weight === Infinity) {
+      throw new Error(`LRUCache sizeOf returned an invalid weight: ${weight}`);
+    }
+    return weight;
+  }
+
+  /**
+   * Checks if the node's TTL (plus any stale-while-revalidate window) has elapsed.
+   */
+  private isStale(node: LRUNode<K, V>): boolean {
+    return node.expiresAt !== 0 && node.expiresAt + this.staleWindow <= this.now();
+  }
+
+  /**
+   * Returns the node for the key unless it is stale, without expiring it.
+   */
+  private findLive(key: K): LRUNode<K, V> | undefined {
+    const node = this.cache.get(key);
+    return node !== undefined && !this.isStale(node) ? node : undefined;
+  }
+
+  /**
+   * Removes the node if its TTL (plus any stale-while-revalidate window) has elapsed.
+   * @returns true if the node was expired and removed
+   */
+  private expireIfStale(node: LRUNode<K, V>): boolean {
+    if (!this.isStale(node)) return false;
+
+    this._expirations++;
+    this.unlink(node, 'expired');
+    return true;
+  }
+
   /**
    * Evicts the tail node (least recently used).
    */
   private evictTail(): void {
     if (this.tail === null) return;
 
-    const evictedKey = this.tail.key;
-    this.removeNode(this.tail);
-    this.cache.delete(evictedKey);
-    this._size--;
     this._evictions++;
+    this.unlink(this.tail, 'evicted');
   }
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { EqualityFn, HashFn, defaultHash, structuralEquals } from "../../types"
+import { LRUCache, LRUCacheOptions } from "./lru-cache"
+
+/**
+ * Cached result together with the arguments that produced it.
+ * Arguments are kept so hash collisions can be detected on lookup.
+ */
+interface MemoEntry<A extends unknown[], R> {
+  args: A | null;
+  value: R;
+}
+
+/**
+ * Options for memoize and memoizeAsync.
+ */
+export interface MemoizeOptions<A extends unknown[]>
+  extends Pick<LRUCacheOptions<unknown, unknown>, 'ttl' | 'now'> {
+  /**
+   * Maximum number of cached results. Defaults to 1000.
+   */
+  capacity?: number;
+
+  /**
+   * Maps arguments to a cache key. When set, results are looked up by this
+   * key alone and hashFn/equalityFn are not used.
+   */
+  keyResolver?: (...args: A) => unknown;
+
+  /**
+   * Hashes the argument list. Defaults to hashArguments.
+   */
+  hashFn?: HashFn<A>;
+
+  /**
+   * Confirms that a cached entry was produced by equal arguments,
+   * guarding against hash collisions. Defaults to argumentsEqual.
+   */
+  equalityFn?: EqualityFn<A>;
+}
+
+/**
+ * Cache controls attached to a memoized function.
+ */
+export interface MemoizedControls<A extends unknown[]> {
+  /**
+   * Removes the cached result for the given arguments.
+   * @returns true if a result was cached, false otherwise
+   */
+  invalidate(...args: A): boolean;
+
+  /**
+   * Removes every cached result and resets statistics.
+   */
+  clear(): void;
+
+  /**
+   * Returns statistics of the underlying LRUCache.
+   */
+  getStats(): ReturnType<LRUCache<unknown, unknown>['getStats']>;
+}
+
+/**
+ * A memoized synchronous function.
+ */
+export type MemoizedFunction<A extends unknown[], R> = ((...args: A) => R) & MemoizedControls<A>;
+
+/**
+ * A memoized asynchronous function.
+ */
+export type MemoizedAsyncFunction<A extends unknown[], R> =
+  ((...args: A) => Promise<R>) & MemoizedControls<A>;
+
+/**
+ * Default argument hash: combines defaultHash of every argument.
+ * Deterministic across calls, so equal primitive arguments, structurally
+ * equal arrays/plain objects/Maps/Sets and equal Hashable values hash the same.
+ */
+export function hashArguments<A extends unknown[]>(args: A): number {
+  let hash = args.length;
+  for (const arg of args) {
+    hash = (Math.imul(hash, 31) + defaultHash(arg)) | 0;
+  }
+  return hash;
+}
+
+/**
+ * Default argument equality: same length, and each pair is structurally
+ * equal (see structuralEquals).
+ */
+export function argumentsEqual<A extends unknown[]>(a: A, b: A): boolean {
+  if (a.length !== b.length) return false;
+
+  for (let i = 0; i < a.length; i++) {
+    if (!structuralEquals(a[i], b[i])) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Memoizes a synchronous function with a bounded LRUCache.
+ *
+ * @example
+ * ```typescript
+ * const distance = memoize((from: string, to: string) => route(from, to), { capacity: 500 });
+ * distance('A', 'B'); // Computed
+ * distance('A', 'B'); // Cached
+ * distance.invalidate('A', 'B');
+ * distance.getStats().hitRate;
+ * ```
+ *
+ * @param fn - The function to memoize; called with the memoized function's `this`
+ * @param options - Cache size, TTL and key resolution
+ */
+export function memoize<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  options: MemoizeOptions<A> = {}
+): MemoizedFunction<A, R> {
+  const store = createStore<A, R>(options);
+
+  const memoized = function (this: unknown, ...args: A): R {
+    const key = store.keyOf(args);
+    const entry = store.cache.get(key);
+    if (entry !== undefined && store.matches(entry, args)) {
+      return entry.value;
+    }
+
+    const value = fn.apply(this, args);
+    store.cache.put(key, { args: store.resolved ? null : args, value });
+    return value;
+  };
+
+  return Object.assign(memoized, store.controls);
+}
+
+/**
+ * Memoizes an asynchronous function with a bounded LRUCache.
+ * Concurrent calls with the same arguments share one pending call,
+ * and rejections are not cached.
+ *
+ * @example
+ * ```typescript
+ * const fetchUser = memoizeAsync((id: string) => db.findUser(id), { ttl: 30_000 });
+ * await Promise.all([fetchUser('1'), fetchUser('1')]); // One database call
+ * ```
+ *
+ * @param fn - The async function to memoize; called with the memoized function's `this`
+ * @param options - Cache size, TTL and key resolution
+ */
+export function memoizeAsync<A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>,
+  options: MemoizeOptions<A> = {}
+): MemoizedAsyncFunction<A, R> {
+  const store = createStore<A, R>(options);
+
+  const memoized = async function (this: unknown, ...args: A): Promise<R> {
+    const key = store.keyOf(args);
+    const cached = store.cache.peek(key);
+    if (cached !== undefined && !store.matches(cached, args)) {
+      // Hash collision with different arguments: replace the entry
+      store.cache.delete(key);
+    }
+
+    const entry = await store.cache.getOrLoad(key, async () => ({
+      args: store.resolved ? null : args,
+      value: await fn.apply(this, args),
+    }));
+
+    // A concurrent colliding call may have shared the load; never return its result
+    return store.matches(entry, args) ? entry.value : fn.apply(this, args);
+  };
+
+  return Object.assign(memoized, store.controls);
+}
+
+/**
+ * Method decorator that memoizes a method per instance.
+ * Each instance gets its own cache, so results never leak between instances.
+ *
+ * @example
+ * ```typescript
+ * class PricingService {
+ *   @Memoize({ capacity: 100, ttl: 60_000 })
+ *   quote(sku: string, quantity: number): number { ... }
+ * }
+ * ```
+ *
+ * @param options - Cache size, TTL and key resolution
+ */
+export function Memoize<This extends object, A extends unknown[], R>(options: MemoizeOptions<A> = {}) {
+  return function (
+    method: (this: This, ...args: A) => R,
+    _context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>
+  ): (this: This, ...args: A) => R {
+    const instances = new WeakMap<This, MemoizedFunction<A, R>>();
+
+    return function (this: This, ...args: A): R {
+      let memoized = instances.get(this);
+      if (memoized === undefined) {
+        memoized = memoize(method.bind(this) as (...args: A) => R, options);
+        instances.set(this, memoized);
+      }
+      return memoized(...args);
+    };
+  };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Shared cache plumbing for memoize and memoizeAsync.
+ */
+function createStore<A extends unknown[], R>(options: MemoizeOptions<A>) {
+  const { capacity = 1000, keyResolver, hashFn = hashArguments, equalityFn = argumentsEqual, ttl, now } = options;
+  const cache = new LRUCache<unknown, MemoEntry<A, R>>(capacity, { ttl, now });
+  const resolved = keyResolver !== undefined;
+
+  const keyOf = (args: A): unknown => (keyResolver ? keyResolver(...args) : hashFn(args));
+  const matches = (entry: MemoEntry<A, R>, args: A): boolean =>
+    entry.args === null || equalityFn(entry.args, args);
+
+  const controls: MemoizedControls<A> = {
+    invalidate: (...args: A) => {
+      const key = keyOf(args);
+      const entry = cache.peek(key);
+      return entry !== undefined && matches(entry, args) && cache.delete(key);
+    },
+    clear: () => cache.clear(),
+    getStats: () => cache.getStats(),
+  };
+
+  return { cache, resolved, keyOf, matches, controls };
+}
@@ -0,0 +1,85 @@
+import type { IReadonlyCache } from "../interfaces/cache.interface"
+import type { LRUCache } from "./lru-cache"
+
+/**
+ * Finds a live entry without expiring anything.
+ */
+type LiveLookup<K, V> = (key: K) => { readonly value: V } | undefined
+
+/**
+ * Zero-copy, read-only view of an LRUCache.
+ * Every call reads the live cache, so changes made through the cache are
+ * visible immediately. The view only peeks, so reading through it never
+ * changes recency or statistics, and its iterators do not expose remove().
+ * Lookups treat expired entries as absent but leave removing them to the cache.
+ */
+export class ReadonlyCacheView<K, V> implements IReadonlyCache<K, V> {
+  constructor(
+    private readonly cache: LRUCache<K, V>,
+    private readonly lookup: LiveLookup<K, V>
+  ) {}
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  get maxCapacity(): number {
+    return this.cache.maxCapacity;
+  }
+
+  isEmpty(): boolean {
+    return this.cache.isEmpty();
+  }
+
+  contains(value: V): boolean {
+    return this.cache.contains(value);
+  }
+
+  toArray(): V[] {
+    return this.cache.toArray();
+  }
+
+  peek(key: K): V | undefined {
+    return this.lookup(key)?.value;
+  }
+
+  has(key: K): boolean {
+    return this.lookup(key) !== undefined;
+  }
+
+  *keys(): IterableIterator<K> {
+    yield* this.cache.keys();
+  }
+
+  *values(): IterableIterator<V> {
+    yield* this.cache.values();
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    yield* this.cache.entries();
+  }
+
+  *[Symbol.iterator](): Iterator<V> {
+    yield* this.cache;
+  }
+
+  forEach(callback: (value: V, key: K, index: number) => void): void {
+    this.cache.forEach(callback);
+  }
+
+  map<U>(callback: (value: V, key: K, index: number) => U): U[] {
+    return this.cache.map(callback);
+  }
+
+  filter(predicate: (value: V, key: K, index: number) => boolean): V[] {
+    return this.cache.filter(predicate);
+  }
+
+  some(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    return this.cache.some(predicate);
+  }
+
+  every(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    return this.cache.every(predicate);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Snapshot format and codecs for persisting caches across restarts.
+ */
+
+/**
+ * Current snapshot format version written by LRUCache.snapshot().
+ */
+export const LRU_CACHE_SNAPSHOT_VERSION = 1;
+
+/**
+ * Converts keys or values to and from a JSON-safe representation.
+ */
+export interface SnapshotCodec<T, E = unknown> {
+  encode(value: T): E;
+  decode(encoded: E): T;
+}
+
+/**
+ * A serialized entry: [key, value] or [key, value, expiresAt].
+ * expiresAt is an absolute timestamp from the cache clock, omitted when the entry never expires.
+ */
+export type SnapshotEntry = [key: unknown, value: unknown, expiresAt?: number];
+
+/**
+ * Statistics carried in a snapshot.
+ */
+export interface SnapshotStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  loadSuccesses: number;
+  loadFailures: number;
+  totalLoadTime: number;
+  /** Optional so that snapshots written before these counters existed still load; missing counts restore as 0. */
+  staleHits?: number;
+  refreshes?: number;
+  refreshFailures?: number;
+}
+
+/**
+ * Versioned, JSON-serializable LRUCache snapshot.
+ */
+export interface LRUCacheSnapshot {
+  version: typeof LRU_CACHE_SNAPSHOT_VERSION;
+  /** Entry-count capacity; null stands for Infinity, which JSON cannot represent. */
+  capacity: number | null;
+  /** Cache clock time at which the snapshot was taken. */
+  savedAt: number;
+  /** Entries ordered from most recently used to least recently used. */
+  entries: SnapshotEntry[];
+  stats?: SnapshotStats;
+}
+
+/**
+ * Anything LRUCache.fromSnapshot can load:
+ * a versioned snapshot, or a bare [key, value][] array such as
+ * [...cache.entries()] (the pre-snapshot way of persisting a cache).
+ */
+export type LRUCacheSnapshotInput = LRUCacheSnapshot | [unknown, unknown][];
+
+/**
+ * Options for LRUCache.snapshot().
+ */
+export interface LRUCacheSnapshotOptions<K, V> {
+  /** Encodes keys. Defaults to storing keys as-is. */
+  keyCodec?: SnapshotCodec<K>;
+  /** Encodes values. Defaults to storing values as-is. */
+  valueCodec?: SnapshotCodec<V>;
+  /** Whether to record expiry times. Defaults to true. */
+  includeTtl?: boolean;
+  /** Whether to record statistics. Defaults to true. */
+  includeStats?: boolean;
+}
+
+/**
+ * Codec that stores a value unchanged.
+ */
+export function identityCodec<T>(): SnapshotCodec<T, T> {
+  return {
+    encode: (value) => value,
+    decode: (encoded) => encoded,
+  };
+}
+
+/**
+ * Codec for Date values, stored as ISO-8601 strings.
+ */
+export const dateCodec: SnapshotCodec<Date, string> = {
+  encode: (value) => value.toISOString(),
+  decode: (encoded) => new Date(encoded),
+};
+
+/**
+ * Codec for Buffer values, stored as base64 strings.
+ */
+export const bufferCodec: SnapshotCodec<Buffer, string> = {
+  encode: (value) => value.toString('base64'),
+  decode: (encoded) => Buffer.from(encoded, 'base64'),
+};
+
+/**
+ * Codec for Map values, stored as arrays of encoded [key, value] pairs.
+ *
+ * @param keyCodec - Codec for the map's keys
+ * @param valueCodec - Codec for the map's values
+ */
+export function mapCodec<MK, MV>(
+  keyCodec: SnapshotCodec<MK> = identityCodec<MK>(),
+  valueCodec: SnapshotCodec<MV> = identityCodec<MV>()
+): SnapshotCodec<Map<MK, MV>, [unknown, unknown][]> {
+  return {
+    encode: (map) => {
+      const pairs: [unknown, unknown][] = [];
+      for (const [key, value] of map) {
+        pairs.push([keyCodec.encode(key), valueCodec.encode(value)]);
+      }
+      return pairs;
+    },
+    decode: (pairs) => {
+      const map = new Map<MK, MV>();
+      for (const [key, value] of pairs) {
+        map.set(keyCodec.decode(key), valueCodec.decode(value));
+      }
+      return map;
+    },
+  };
+}
+
+/**
+ * Upgrades any supported snapshot input to the current format.
+ * Throws for unknown or newer versions rather than guessing.
+ */
+export function normalizeSnapshot(input: LRUCacheSnapshotInput): LRUCacheSnapshot {
+  if (Array.isArray(input)) {
+    // Bare entries array: MRU→LRU pairs without metadata
+    return {
+      version: LRU_CACHE_SNAPSHOT_VERSION,
+      capacity: null,
+      savedAt: 0,
+      entries: input.map(([key, value]) => [key, value] as SnapshotEntry),
+    };
+  }
+
+  if (input === null || typeof input !== 'object' || !Array.isArray(input.entries)) {
+    throw new Error('Invalid LRUCache snapshot');
+  }
+
+  if (input.version !== LRU_CACHE_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported LRUCache snapshot version ${String(input.version)} ` +
+      `(supported: ${LRU_CACHE_SNAPSHOT_VERSION})`
+    );
+  }
+
+  return input;
+}
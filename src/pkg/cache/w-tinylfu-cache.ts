@@ -0,0 +1,365 @@
+import { CacheStats, ICache, ICollection } from "../interfaces"
+import { HashFn, defaultHash } from "../../types"
+import { CountMinSketch } from "./count-min-sketch"
+
+/**
+ * Options for constructing a WTinyLFUCache.
+ */
+export interface WTinyLFUCacheOptions<K> {
+  /**
+   * Fraction of the capacity reserved for the admission window (0 to 1).
+   * Defaults to 0.01, with at least one entry.
+   */
+  windowRatio?: number;
+
+  /**
+   * Hash function used by the frequency sketch. Defaults to defaultHash.
+   */
+  hashFn?: HashFn<K>;
+}
+
+/**
+ * W-TinyLFU (Window Tiny Least Frequently Used) Cache implementation.
+ *
+ * New entries land in a small LRU admission window. When the window
+ * overflows, its LRU entry competes with the main cache's victim: a
+ * count-min sketch estimates both keys' recent access frequency, and the
+ * candidate is admitted only if it is more popular. The main cache is a
+ * segmented LRU (probation + protected), so one-hit wonders never displace
+ * the hot set while recency bursts are still absorbed by the window.
+ *
+ * Each segment is a Map, whose insertion order doubles as the LRU order
+ * (first key = least recent), so all segment operations stay O(1).
+ *
+ * Performance Characteristics:
+ * - get(key): O(1)
+ * - put(key, value): O(1)
+ * - delete(key): O(1)
+ * - Memory: capacity entries plus a fixed-size 4-bit sketch
+ *
+ * @see Einziger, Friedman & Manes, "TinyLFU: A Highly Efficient Cache Admission Policy"
+ *
+ * @example
+ * ```typescript
+ * const cache = new WTinyLFUCache<string, number>(1000);
+ * cache.put('a', 1);
+ * cache.get('a'); // Counted by the sketch; promoted once in the main cache
+ * ```
+ */
+export class WTinyLFUCache<K, V> implements ICollection<V>, ICache<K, V> {
+  private capacity: number;
+  private windowCapacity: number;
+  private protectedCapacity: number;
+  private mainCapacity: number;
+  private window = new Map<K, V>();
+  private probation = new Map<K, V>();
+  private protectedSegment = new Map<K, V>();
+  private sketch: CountMinSketch;
+  private hashFn: HashFn<K>;
+
+  // Statistics for monitoring
+  private _hits = 0;
+  private _misses = 0;
+  private _evictions = 0;
+  private _admissions = 0;
+  private _rejections = 0;
+
+  constructor(capacity: number, options: WTinyLFUCacheOptions<K> = {}) {
+    if (capacity <= 0) {
+      throw new Error('WTinyLFUCache capacity must be greater than 0');
+    }
+    if (!Number.isFinite(capacity)) {
+      throw new RangeError('WTinyLFUCache capacity must be finite');
+    }
+    const windowRatio = options.windowRatio ?? 0.01;
+    if (!(windowRatio >= 0 && windowRatio <= 1)) {
+      throw new Error('WTinyLFUCache windowRatio must be between 0 and 1');
+    }
+
+    this.capacity = capacity;
+    this.windowCapacity = Math.min(capacity, Math.max(1, Math.round(capacity * windowRatio)));
+    this.mainCapacity = capacity - this.windowCapacity;
+    this.protectedCapacity = Math.floor(this.mainCapacity * 0.8);
+    this.sketch = new CountMinSketch(capacity);
+    this.hashFn = options.hashFn ?? defaultHash;
+  }
+
+  /**
+   * Returns the current number of items in the cache.
+   */
+  get size(): number {
+    return this.window.size + this.probation.size + this.protectedSegment.size;
+  }
+
+  /**
+   * Returns the maximum capacity of the cache.
+   */
+  get maxCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Returns cache hit rate (0.0 to 1.0).
+   */
+  get hitRate(): number {
+    const total = this._hits + this._misses;
+    return total === 0 ? 0 : this._hits / total;
+  }
+
+  /**
+   * Checks if the cache is empty.
+   */
+  isEmpty(): boolean {
+    return this.size === 0;
+  }
+
+  /**
+   * Checks if the cache is at full capacity.
+   */
+  isFull(): boolean {
+    return this.size >= this.capacity;
+  }
+
+  /**
+   * Retrieves a value from the cache.
+   * Every lookup, hit or miss, is recorded in the frequency sketch.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to look up
+   * @returns The cached value, or undefined if not found
+   */
+  get(key: K): V | undefined {
+    this.sketch.increment(this.hashFn(key));
+
+    if (!this.has(key)) {
+      this._misses++;
+      return undefined;
+    }
+
+    this._hits++;
+    return this.touch(key, undefined, false);
+  }
+
+  /**
+   * Inserts or updates a key-value pair in the cache.
+   * New keys enter the admission window; the entry pushed out of the window
+   * is admitted to the main cache only if it is more frequent than the victim.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to insert/update
+   * @param value - The value to store
+   * @returns The WTinyLFUCache instance for chaining
+   */
+  put(key: K, value: V): this {
+    this.sketch.increment(this.hashFn(key));
+
+    if (this.has(key)) {
+      this.touch(key, value, true);
+      return this;
+    }
+
+    this.window.set(key, value);
+
+    if (this.window.size > this.windowCapacity) {
+      const oldest = this.window.keys().next();
+      if (!oldest.done) {
+        const candidate = oldest.value;
+        const candidateValue = this.window.get(candidate) as V;
+        this.window.delete(candidate);
+        this.admit(candidate, candidateValue);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Checks if a key exists in the cache.
+   * Does NOT update access order or frequency.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to check
+   */
+  has(key: K): boolean {
+    return this.window.has(key) || this.probation.has(key) || this.protectedSegment.has(key);
+  }
+
+  /**
+   * Peeks at a value without updating access order or frequency.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to peek at
+   */
+  peek(key: K): V | undefined {
+    return this.segmentOf(key)?.get(key);
+  }
+
+  /**
+   * Removes a key-value pair from the cache.
+   * The key's frequency history is kept by the sketch.
+   * Time Complexity: O(1)
+   *
+   * @param key - The key to delete
+   * @returns true if the key existed, false otherwise
+   */
+  delete(key: K): boolean {
+    return this.window.delete(key) || this.probation.delete(key) || this.protectedSegment.delete(key);
+  }
+
+  /**
+   * Removes all items from the cache and resets the frequency sketch.
+   * Resets all statistics.
+   */
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protectedSegment.clear();
+    this.sketch.clear();
+    this._hits = 0;
+    this._misses = 0;
+    this._evictions = 0;
+    this._admissions = 0;
+    this._rejections = 0;
+  }
+
+  /**
+   * Resets statistics without clearing the cache.
+   */
+  resetStats(): void {
+    this._hits = 0;
+    this._misses = 0;
+    this._evictions = 0;
+    this._admissions = 0;
+    this._rejections = 0;
+  }
+
+  /**
+   * Checks if the cache contains a specific value.
+   * Note: This is O(n) operation.
+   *
+   * @param value - The value to search for
+   */
+  contains(value: V): boolean {
+    for (const segment of [this.window, this.probation, this.protectedSegment]) {
+      for (const cached of segment.values()) {
+        if (cached === value) return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Converts the cache to an array of values (window, probation, protected).
+   */
+  toArray(): V[] {
+    return [...this.window.values(), ...this.probation.values(), ...this.protectedSegment.values()];
+  }
+
+  /**
+   * Returns cache statistics for monitoring and debugging.
+   */
+  getStats(): CacheStats & {
+    windowSize: number;
+    probationSize: number;
+    protectedSize: number;
+    admissions: number;
+    rejections: number;
+  } {
+    const size = this.size;
+    return {
+      size,
+      capacity: this.capacity,
+      hits: this._hits,
+      misses: this._misses,
+      evictions: this._evictions,
+      hitRate: this.hitRate,
+      utilization: size / this.capacity,
+      windowSize: this.window.size,
+      probationSize: this.probation.size,
+      protectedSize: this.protectedSegment.size,
+      admissions: this._admissions,
+      rejections: this._rejections,
+    };
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Returns the segment holding the key, if any.
+   */
+  private segmentOf(key: K): Map<K, V> | undefined {
+    if (this.window.has(key)) return this.window;
+    if (this.probation.has(key)) return this.probation;
+    if (this.protectedSegment.has(key)) return this.protectedSegment;
+    return undefined;
+  }
+
+  /**
+   * Records an access to a resident key, optionally replacing its value.
+   * Probation hits are promoted to the protected segment.
+   *
+   * @returns The entry's (possibly updated) value
+   */
+  private touch(key: K, value: V | undefined, replace: boolean): V {
+    const segment = this.segmentOf(key)!;
+    const current = replace ? (value as V) : (segment.get(key) as V);
+    segment.delete(key);
+
+    if (segment === this.probation) {
+      this.protectedSegment.set(key, current);
+      this.demoteOverflow();
+    } else {
+      segment.set(key, current);
+    }
+
+    return current;
+  }
+
+  /**
+   * Moves protected LRU entries back to probation while protected is over budget.
+   */
+  private demoteOverflow(): void {
+    while (this.protectedSegment.size > this.protectedCapacity) {
+      const oldest = this.protectedSegment.keys().next();
+      if (oldest.done) return;
+
+      const value = this.protectedSegment.get(oldest.value) as V;
+      this.protectedSegment.delete(oldest.value);
+      this.probation.set(oldest.value, value);
+    }
+  }
+
+  /**
+   * Admits a window evictee into the main cache if it beats the main victim.
+   */
+  private admit(candidate: K, value: V): void {
+    if (this.probation.size + this.protectedSegment.size < this.mainCapacity) {
+      this.probation.set(candidate, value);
+      return;
+    }
+
+    const victimSegment = this.probation.size > 0 ? this.probation : this.protectedSegment;
+    const victim = victimSegment.keys().next();
+
+    this._evictions++;
+
+    if (victim.done) {
+      // No main cache (capacity of 1): the candidate simply leaves
+      this._rejections++;
+      return;
+    }
+
+    const candidateFrequency = this.sketch.estimate(this.hashFn(candidate));
+    const victimFrequency = this.sketch.estimate(this.hashFn(victim.value));
+
+    if (candidateFrequency > victimFrequency) {
+      victimSegment.delete(victim.value);
+      this.probation.set(candidate, value);
+      this._admissions++;
+    } else {
+      this._rejections++;
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Composable comparators.
+ *
+ * Every helper returns a plain ComparatorFn, so the results plug into any
+ * API that takes a comparator (DoublyLinkedList.sort, Seq.sortBy, ...).
+ *
+ * @example
+ * ```typescript
+ * list.sort(thenComparing(
+ *   comparing(user => user.lastName, localeCompare('de')),
+ *   comparing(user => user.age, reversed()),
+ * ));
+ * ```
+ */
+
+import { ComparatorFn, defaultComparator } from "../../types"
+
+/**
+ * Compares values by a key extracted from each.
+ *
+ * @param keyFn - Extracts the sort key
+ * @param keyComparator - Orders the keys, defaults to defaultComparator
+ */
+export function comparing<T, K>(
+  keyFn: (value: T) => K,
+  keyComparator: ComparatorFn<K> = defaultComparator
+): ComparatorFn<T> {
+  return (a, b) => keyComparator(keyFn(a), keyFn(b));
+}
+
+/**
+ * Chains comparators: each one breaks the ties left by the ones before it.
+ *
+ * @param comparators - Comparators in order of priority
+ */
+export function thenComparing<T>(...comparators: ComparatorFn<T>[]): ComparatorFn<T> {
+  return (a, b) => {
+    for (const comparator of comparators) {
+      const result = comparator(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Reverses an ordering.
+ *
+ * @param comparator - The ordering to reverse, defaults to defaultComparator
+ */
+export function reversed<T>(comparator: ComparatorFn<T> = defaultComparator): ComparatorFn<T> {
+  return (a, b) => comparator(b, a);
+}
+
+/**
+ * Orders null and undefined before every other value, which are compared
+ * with the given comparator. null sorts before undefined.
+ *
+ * @param comparator - Ordering for non-null values, defaults to defaultComparator
+ */
+export function nullsFirst<T>(
+  comparator: ComparatorFn<T> = defaultComparator
+): ComparatorFn<T | null | undefined> {
+  return (a, b) => {
+    if (a === null || a === undefined || b === null || b === undefined) {
+      return compareNullish(a, b, -1);
+    }
+    return comparator(a, b);
+  };
+}
+
+/**
+ * Orders null and undefined after every other value, which are compared
+ * with the given comparator. null sorts before undefined.
+ *
+ * @param comparator - Ordering for non-null values, defaults to defaultComparator
+ */
+export function nullsLast<T>(
+  comparator: ComparatorFn<T> = defaultComparator
+): ComparatorFn<T | null | undefined> {
+  return (a, b) => {
+    if (a === null || a === undefined || b === null || b === undefined) {
+      return compareNullish(a, b, 1);
+    }
+    return comparator(a, b);
+  };
+}
+
+/**
+ * Language-aware string ordering backed by a single Intl.Collator.
+ *
+ * @example
+ * ```typescript
+ * const byName = comparing((user: User) => user.name, localeCompare('sv', { sensitivity: 'base' }));
+ * ```
+ *
+ * @param locales - BCP 47 locale(s), defaults to the runtime locale
+ * @param options - Collator options such as sensitivity or numeric
+ */
+export function localeCompare(
+  locales?: string | string[],
+  options?: Intl.CollatorOptions
+): ComparatorFn<string> {
+  return new Intl.Collator(locales, options).compare;
+}
+
+/**
+ * Natural string ordering: runs of digits compare by numeric value, so
+ * "file2" sorts before "file10". Other characters compare by code unit,
+ * which keeps the order independent of locale. When two strings differ
+ * only in leading zeros, the one with fewer zeros sorts first.
+ * For locale-aware natural ordering use localeCompare(locale, { numeric: true }).
+ */
+export function naturalCompare(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+  let zeroTieBreak = 0;
+
+  while (i < a.length && j < b.length) {
+    const charA = a.charCodeAt(i);
+    const charB = b.charCodeAt(j);
+
+    if (isDigit(charA) && isDigit(charB)) {
+      const startA = i;
+      const startB = j;
+      while (i < a.length && a.charCodeAt(i) === 48) i++;
+      while (j < b.length && b.charCodeAt(j) === 48) j++;
+      const digitsA = i;
+      const digitsB = j;
+      while (i < a.length && isDigit(a.charCodeAt(i))) i++;
+      while (j < b.length && isDigit(b.charCodeAt(j))) j++;
+
+      // Longer significant run means a larger number
+      const lengthA = i - digitsA;
+      const lengthB = j - digitsB;
+      if (lengthA !== lengthB) return lengthA < lengthB ? -1 : 1;
+
+      for (let k = 0; k < lengthA; k++) {
+        const digitA = a.charCodeAt(digitsA + k);
+        const digitB = b.charCodeAt(digitsB + k);
+        if (digitA !== digitB) return digitA < digitB ? -1 : 1;
+      }
+
+      if (zeroTieBreak === 0) {
+        const zerosA = digitsA - startA;
+        const zerosB = digitsB - startB;
+        if (zerosA !== zerosB) zeroTieBreak = zerosA < zerosB ? -1 : 1;
+      }
+      continue;
+    }
+
+    if (charA !== charB) return charA < charB ? -1 : 1;
+    i++;
+    j++;
+  }
+
+  const remainingA = a.length - i;
+  const remainingB = b.length - j;
+  if (remainingA !== remainingB) return remainingA < remainingB ? -1 : 1;
+  return zeroTieBreak;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Compares two values when at least one is null or undefined.
+ *
+ * @param nullishSign - -1 to put nullish values first, 1 to put them last
+ */
+function compareNullish(a: unknown, b: unknown, nullishSign: number): number {
+  const nullishA = a === null || a === undefined;
+  const nullishB = b === null || b === undefined;
+  if (nullishA && nullishB) {
+    if (a === b) return 0;
+    return a === null ? -1 : 1;
+  }
+  return nullishA ? nullishSign : -nullishSign;
+}
+
+/**
+ * Checks for an ASCII digit.
+ */
+function isDigit(charCode: number): boolean {
+  return charCode >= 48 && charCode <= 57;
+}
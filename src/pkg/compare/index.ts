@@ -0,0 +1,13 @@
+/**
+ * Comparator combinators
+ */
+
+export {
+  comparing,
+  thenComparing,
+  reversed,
+  nullsFirst,
+  nullsLast,
+  localeCompare,
+  naturalCompare,
+} from "./comparators";
@@ -0,0 +1,13 @@
+/**
+ * Thrown when a collection is structurally modified while it is being
+ * iterated, other than through the iterator's own remove().
+ *
+ * Iterators fail fast on a best-effort basis: they detect the change on
+ * their next step instead of silently skipping or revisiting elements.
+ */
+export class ConcurrentModificationError extends Error {
+  constructor(message = 'Collection was modified during iteration') {
+    super(message);
+    this.name = 'ConcurrentModificationError';
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Error types shared by Aethel.TS data structures
+ */
+
+export { ConcurrentModificationError } from "./concurrent-modification.error";
@@ -0,0 +1,453 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IKeyedIterable, IMutableIterator } from "../interfaces/iterable.interface";
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { EqualityFn, HashFn, defaultEquality, defaultHash } from "../../types";
+
+/**
+ * Options for constructing a HashMap.
+ */
+export interface HashMapOptions<K> {
+  /**
+   * Hash for keys. Equal keys must hash the same. Defaults to defaultHash.
+   */
+  hashFn?: HashFn<K>;
+
+  /**
+   * Equality for keys. Defaults to defaultEquality.
+   */
+  equalityFn?: EqualityFn<K>;
+
+  /**
+   * Fraction of the slot table that may be occupied before it grows,
+   * between 0 (exclusive) and 1 (exclusive). Defaults to 0.75.
+   */
+  loadFactor?: number;
+
+  /**
+   * Number of entries to size the table for up front. Defaults to 0.
+   */
+  initialCapacity?: number;
+}
+
+/** Slot table marker for a slot that was never used; ends a probe. */
+const EMPTY_SLOT = -1;
+/** Slot table marker for a slot whose entry was deleted; a probe continues past it. */
+const DELETED_SLOT = -2;
+/** Smallest slot table; always a power of two. */
+const MIN_SLOTS = 8;
+/** Multiplier for Fibonacci hashing, which spreads clustered hashes across the table. */
+const GOLDEN_RATIO_32 = 0x9e3779b1;
+
+/** Marks a removed entry in the dense entry arrays. */
+const REMOVED: unique symbol = Symbol('removed');
+
+/**
+ * Hash map keyed by configurable hash and equality functions.
+ *
+ * Native Map compares keys by identity, so two equal value objects such as
+ * { tenant, id } are different keys. HashMap looks keys up with a HashFn
+ * and an EqualityFn instead; with the defaults, keys implementing the
+ * Hashable protocol compare by value.
+ *
+ * Entries live in dense arrays in insertion order, indexed by an
+ * open-addressing slot table with linear probing. Iteration therefore
+ * follows insertion order, like Map, and updating an existing key keeps
+ * its position. The table doubles when occupied slots (including those
+ * left by deletions) exceed the load factor; rebuilding it also compacts
+ * out deleted entries.
+ *
+ * Performance Characteristics:
+ * - get/set/has/delete: O(1) average
+ * - iteration: O(n) in insertion order
+ *
+ * @example
+ * ```typescript
+ * const byId = new HashMap<{ tenant: string; id: number }, User>({
+ *   hashFn: structuralHash,
+ *   equalityFn: structuralEquals,
+ * });
+ * byId.set({ tenant: 'acme', id: 7 }, user);
+ * byId.get({ tenant: 'acme', id: 7 }); // user
+ * ```
+ */
+export class HashMap<K, V> implements ICollection<V>, IKeyedIterable<K, V> {
+  private slots: Int32Array;
+  private shift: number;
+  private hashes: number[] = [];
+  private keyList: (K | typeof REMOVED)[] = [];
+  private valueList: (V | undefined)[] = [];
+  private _size = 0;
+  private usedSlots = 0;
+  private modCount = 0;
+  private readonly hashFn: HashFn<K>;
+  private readonly equalityFn: EqualityFn<K>;
+  private readonly loadFactor: number;
+
+  constructor(options: HashMapOptions<K> = {}) {
+    const loadFactor = options.loadFactor ?? 0.75;
+    if (!(loadFactor > 0 && loadFactor < 1)) {
+      throw new Error('HashMap loadFactor must be between 0 and 1 (exclusive)');
+    }
+    const initialCapacity = options.initialCapacity ?? 0;
+    if (!(Number.isInteger(initialCapacity) && initialCapacity >= 0)) {
+      throw new Error('HashMap initialCapacity must be a non-negative integer');
+    }
+    this.hashFn = options.hashFn ?? defaultHash;
+    this.equalityFn = options.equalityFn ?? defaultEquality;
+    this.loadFactor = loadFactor;
+
+    const slotCount = this.slotCountFor(initialCapacity);
+    this.slots = new Int32Array(slotCount).fill(EMPTY_SLOT);
+    this.shift = 32 - Math.log2(slotCount);
+  }
+
+  /**
+   * Creates a HashMap from [key, value] entries. Later duplicates overwrite earlier ones.
+   * Time Complexity: O(n) average
+   *
+   * @param entries - The entries to add
+   * @param options - Hash, equality and sizing options
+   */
+  static from<K, V>(entries: Iterable<readonly [K, V]>, options: HashMapOptions<K> = {}): HashMap<K, V> {
+    const map = new HashMap<K, V>(options);
+    for (const [key, value] of entries) {
+      map.set(key, value);
+    }
+    return map;
+  }
+
+  /**
+   * Returns the number of entries in the map.
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Checks if the map is empty.
+   */
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  /**
+   * Returns the value stored for a key.
+   * Time Complexity: O(1) average
+   */
+  get(key: K): V | undefined {
+    const entry = this.findEntry(key, this.hash(key));
+    return entry === -1 ? undefined : this.valueList[entry];
+  }
+
+  /**
+   * Stores a value for a key. An existing key keeps its insertion position.
+   * Time Complexity: O(1) amortized
+   *
+   * @param key - The key; equal keys share one entry
+   * @param value - The value to store
+   */
+  set(key: K, value: V): this {
+    const hash = this.hash(key);
+    const existing = this.findEntry(key, hash);
+    if (existing !== -1) {
+      this.valueList[existing] = value;
+      return this;
+    }
+
+    // Grow past the load factor, and compact once removed entries pile up in the dense arrays
+    if (this.usedSlots + 1 > this.slots.length * this.loadFactor || this.keyList.length >= this.slots.length) {
+      this.rehash(this._size + 1);
+    }
+
+    const entry = this.keyList.length;
+    this.hashes.push(hash);
+    this.keyList.push(key);
+    this.valueList.push(value);
+    this.placeEntry(entry, hash);
+    this._size++;
+    this.modCount++;
+    return this;
+  }
+
+  /**
+   * Checks if a key exists.
+   * Time Complexity: O(1) average
+   */
+  has(key: K): boolean {
+    return this.findEntry(key, this.hash(key)) !== -1;
+  }
+
+  /**
+   * Removes a key and its value.
+   * The slot is marked deleted and reclaimed the next time the table is rebuilt.
+   * Time Complexity: O(1) average
+   *
+   * @returns true if the key was present
+   */
+  delete(key: K): boolean {
+    const slot = this.findSlot(key, this.hash(key));
+    if (slot === -1) return false;
+
+    const entry = this.slots[slot]!;
+    this.slots[slot] = DELETED_SLOT;
+    this.keyList[entry] = REMOVED;
+    this.valueList[entry] = undefined;
+    this._size--;
+    this.modCount++;
+    return true;
+  }
+
+  /**
+   * Removes all entries and shrinks the table to its minimum size.
+   */
+  clear(): void {
+    this.slots = new Int32Array(MIN_SLOTS).fill(EMPTY_SLOT);
+    this.shift = 32 - Math.log2(MIN_SLOTS);
+    this.hashes = [];
+    this.keyList = [];
+    this.valueList = [];
+    this._size = 0;
+    this.usedSlots = 0;
+    this.modCount++;
+  }
+
+  /**
+   * Checks if any entry holds a value (compared with ===).
+   * Time Complexity: O(n)
+   */
+  contains(value: V): boolean {
+    for (let i = 0; i < this.keyList.length; i++) {
+      if (this.keyList[i] !== REMOVED && this.valueList[i] === value) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns all values in insertion order.
+   */
+  toArray(): V[] {
+    return [...this.values()];
+  }
+
+  /**
+   * Iterates values in insertion order.
+   * Adding or deleting keys while iterating throws a ConcurrentModificationError,
+   * except through the iterator's own remove(). Updating the value of an
+   * existing key is allowed.
+   */
+  [Symbol.iterator](): IMutableIterator<V> {
+    return this.iterate((entry) => this.valueList[entry] as V);
+  }
+
+  /**
+   * Iterates [key, value] entries in insertion order.
+   */
+  entries(): IMutableIterator<[K, V]> {
+    return this.iterate((entry) => [this.keyList[entry] as K, this.valueList[entry] as V]);
+  }
+
+  /**
+   * Iterates keys in insertion order.
+   */
+  keys(): IMutableIterator<K> {
+    return this.iterate((entry) => this.keyList[entry] as K);
+  }
+
+  /**
+   * Iterates values in insertion order.
+   */
+  values(): IMutableIterator<V> {
+    return this.iterate((entry) => this.valueList[entry] as V);
+  }
+
+  /**
+   * Executes a function for each entry, in insertion order.
+   * The callback receives (value, key, index), in Map.prototype.forEach order.
+   */
+  forEach(callback: (value: V, key: K, index: number) => void): void {
+    let index = 0;
+    for (const [key, value] of this.entries()) {
+      callback(value, key, index);
+      index++;
+    }
+  }
+
+  /**
+   * Maps entries, in insertion order, to a new array.
+   */
+  map<U>(callback: (value: V, key: K, index: number) => U): U[] {
+    const result: U[] = [];
+    this.forEach((value, key, index) => {
+      result.push(callback(value, key, index));
+    });
+    return result;
+  }
+
+  /**
+   * Returns the values whose entries pass the predicate.
+   */
+  filter(predicate: (value: V, key: K, index: number) => boolean): V[] {
+    const result: V[] = [];
+    this.forEach((value, key, index) => {
+      if (predicate(value, key, index)) result.push(value);
+    });
+    return result;
+  }
+
+  /**
+   * Tests whether any entry passes the predicate.
+   */
+  some(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    let index = 0;
+    for (const [key, value] of this.entries()) {
+      if (predicate(value, key, index)) return true;
+      index++;
+    }
+    return false;
+  }
+
+  /**
+   * Tests whether every entry passes the predicate.
+   */
+  every(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    return !this.some((value, key, index) => !predicate(value, key, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Hashes a key to a 32-bit integer.
+   */
+  private hash(key: K): number {
+    return this.hashFn(key) | 0;
+  }
+
+  /**
+   * Returns the slot holding a key's entry, or -1 if the key is absent.
+   */
+  private findSlot(key: K, hash: number): number {
+    const slots = this.slots;
+    const mask = slots.length - 1;
+    let slot = Math.imul(hash, GOLDEN_RATIO_32) >>> this.shift;
+    for (;;) {
+      const entry = slots[slot]!;
+      if (entry === EMPTY_SLOT) return -1;
+      if (entry >= 0 && this.hashes[entry] === hash && this.equalityFn(this.keyList[entry] as K, key)) {
+        return slot;
+      }
+      slot = (slot + 1) & mask;
+    }
+  }
+
+  /**
+   * Returns the dense index of a key's entry, or -1 if the key is absent.
+   */
+  private findEntry(key: K, hash: number): number {
+    const slot = this.findSlot(key, hash);
+    return slot === -1 ? -1 : this.slots[slot]!;
+  }
+
+  /**
+   * Points the first free slot on a hash's probe sequence at an entry.
+   * Reuses deleted slots; only claiming a never-used slot raises the load.
+   */
+  private placeEntry(entry: number, hash: number): void {
+    const slots = this.slots;
+    const mask = slots.length - 1;
+    let slot = Math.imul(hash, GOLDEN_RATIO_32) >>> this.shift;
+    while (slots[slot]! >= 0) {
+      slot = (slot + 1) & mask;
+    }
+    if (slots[slot] === EMPTY_SLOT) this.usedSlots++;
+    slots[slot] = entry;
+  }
+
+  /**
+   * Rebuilds the slot table sized for a number of entries, compacting out
+   * removed entries and clearing deleted slots. Insertion order is kept.
+   */
+  private rehash(entryCount: number): void {
+    const slotCount = this.slotCountFor(entryCount);
+    const hashes: number[] = [];
+    const keys: (K | typeof REMOVED)[] = [];
+    const values: (V | undefined)[] = [];
+    for (let i = 0; i < this.keyList.length; i++) {
+      if (this.keyList[i] === REMOVED) continue;
+      hashes.push(this.hashes[i]!);
+      keys.push(this.keyList[i]!);
+      values.push(this.valueList[i]);
+    }
+
+    this.hashes = hashes;
+    this.keyList = keys;
+    this.valueList = values;
+    this.slots = new Int32Array(slotCount).fill(EMPTY_SLOT);
+    this.shift = 32 - Math.log2(slotCount);
+    this.usedSlots = 0;
+    for (let i = 0; i < hashes.length; i++) {
+      this.placeEntry(i, hashes[i]!);
+    }
+    this.modCount++;
+  }
+
+  /**
+   * Returns the smallest power-of-two slot count that holds entryCount
+   * entries within the load factor.
+   */
+  private slotCountFor(entryCount: number): number {
+    let slotCount = MIN_SLOTS;
+    while (entryCount > slotCount * this.loadFactor) {
+      slotCount *= 2;
+    }
+    return slotCount;
+  }
+
+  /**
+   * Walks live entries in insertion order. remove() deletes the entry last
+   * returned; deletions never move entries, so the walk continues in place.
+   */
+  private iterate<R>(project: (entry: number) => R): IMutableIterator<R> {
+    const map = this;
+    let position = 0;
+    let lastReturned = -1;
+    let expectedModCount = this.modCount;
+
+    const iterator: IMutableIterator<R> = {
+      next(): IteratorResult<R> {
+        map.assertUnmodified(expectedModCount);
+        while (position < map.keyList.length && map.keyList[position] === REMOVED) {
+          position++;
+        }
+        if (position >= map.keyList.length) {
+          lastReturned = -1;
+          return { done: true, value: undefined };
+        }
+        lastReturned = position++;
+        return { done: false, value: project(lastReturned) };
+      },
+      remove(): void {
+        map.assertUnmodified(expectedModCount);
+        if (lastReturned === -1) {
+          throw new Error('HashMap iterator remove() requires a preceding next()');
+        }
+        const key = map.keyList[lastReturned] as K;
+        lastReturned = -1;
+        map.delete(key);
+        expectedModCount = map.modCount;
+      },
+      [Symbol.iterator]() {
+        return iterator;
+      },
+    };
+
+    return iterator;
+  }
+
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('HashMap was modified during iteration');
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IIterable, IMutableIterator } from "../interfaces/iterable.interface";
+import { HashMap, HashMapOptions } from "./hash-map";
+
+/**
+ * Options for constructing a HashSet.
+ */
+export type HashSetOptions<T> = HashMapOptions<T>;
+
+/**
+ * Hash set with configurable hash and equality functions.
+ *
+ * Like HashMap, membership uses a HashFn and an EqualityFn instead of
+ * identity, and iteration follows insertion order. Set algebra methods
+ * return new sets that share this set's options and keep this set's order
+ * first.
+ *
+ * Performance Characteristics:
+ * - add/has/delete: O(1) average
+ * - union/intersection/difference: O(n + m) average
+ * - isSubsetOf: O(n) average
+ *
+ * @example
+ * ```typescript
+ * const seen = new HashSet<[number, number]>({ hashFn: structuralHash, equalityFn: structuralEquals });
+ * seen.add([1, 2]);
+ * seen.has([1, 2]); // true
+ * ```
+ */
+export class HashSet<T> implements ICollection<T>, IIterable<T> {
+  private table: HashMap<T, T>;
+
+  constructor(private readonly options: HashSetOptions<T> = {}) {
+    this.table = new HashMap<T, T>(options);
+  }
+
+  /**
+   * Creates a HashSet from any iterable. Equal elements are kept once, first occurrence first.
+   * Time Complexity: O(n) average
+   *
+   * @param elements - The elements to add
+   * @param options - Hash, equality and sizing options
+   */
+  static from<T>(elements: Iterable<T>, options: HashSetOptions<T> = {}): HashSet<T> {
+    const set = new HashSet<T>(options);
+    for (const element of elements) {
+      set.add(element);
+    }
+    return set;
+  }
+
+  /**
+   * Returns the number of elements in the set.
+   */
+  get size(): number {
+    return this.table.size;
+  }
+
+  /**
+   * Checks if the set is empty.
+   */
+  isEmpty(): boolean {
+    return this.table.isEmpty();
+  }
+
+  /**
+   * Adds an element unless an equal one is already present.
+   * The first element added stays the stored instance.
+   * Time Complexity: O(1) amortized
+   */
+  add(element: T): this {
+    if (!this.table.has(element)) {
+      this.table.set(element, element);
+    }
+    return this;
+  }
+
+  /**
+   * Checks if the set has an element equal to the given one.
+   * Time Complexity: O(1) average
+   */
+  has(element: T): boolean {
+    return this.table.has(element);
+  }
+
+  /**
+   * Removes the element equal to the given one.
+   * Time Complexity: O(1) average
+   *
+   * @returns true if an element was removed
+   */
+  delete(element: T): boolean {
+    return this.table.delete(element);
+  }
+
+  /**
+   * Removes all elements from the set.
+   */
+  clear(): void {
+    this.table.clear();
+  }
+
+  /**
+   * Checks if the set has an element equal to the given one. Same as has().
+   */
+  contains(element: T): boolean {
+    return this.table.has(element);
+  }
+
+  /**
+   * Returns the elements in insertion order.
+   */
+  toArray(): T[] {
+    return this.table.toArray();
+  }
+
+  /**
+   * Returns a new set with the elements of this set followed by those of other.
+   * Time Complexity: O(n + m) average
+   */
+  union(other: Iterable<T>): HashSet<T> {
+    const result = HashSet.from(this, this.options);
+    for (const element of other) {
+      result.add(element);
+    }
+    return result;
+  }
+
+  /**
+   * Returns a new set with the elements of this set that other also has.
+   * Time Complexity: O(n + m) average
+   */
+  intersection(other: Iterable<T>): HashSet<T> {
+    const lookup = this.toLookup(other);
+    const result = new HashSet<T>(this.options);
+    for (const element of this) {
+      if (lookup.has(element)) result.add(element);
+    }
+    return result;
+  }
+
+  /**
+   * Returns a new set with the elements of this set that other does not have.
+   * Time Complexity: O(n + m) average
+   */
+  difference(other: Iterable<T>): HashSet<T> {
+    const lookup = this.toLookup(other);
+    const result = new HashSet<T>(this.options);
+    for (const element of this) {
+      if (!lookup.has(element)) result.add(element);
+    }
+    return result;
+  }
+
+  /**
+   * Checks if every element of this set is in other.
+   * Time Complexity: O(n) average when other is a HashSet, O(n + m) otherwise
+   */
+  isSubsetOf(other: Iterable<T>): boolean {
+    const lookup = this.toLookup(other);
+    if (lookup.size < this.size) return false;
+    return this.every((element) => lookup.has(element));
+  }
+
+  /**
+   * Iterates elements in insertion order.
+   * Adding or deleting elements while iterating throws a ConcurrentModificationError,
+   * except through the iterator's own remove().
+   */
+  [Symbol.iterator](): IMutableIterator<T> {
+    return this.table.values();
+  }
+
+  /**
+   * Executes a function for each element, in insertion order.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    this.table.forEach((element, _key, index) => callback(element, index));
+  }
+
+  /**
+   * Maps elements, in insertion order, to a new array.
+   */
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    return this.table.map((element, _key, index) => callback(element, index));
+  }
+
+  /**
+   * Returns the elements that pass the predicate.
+   */
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    return this.table.filter((element, _key, index) => predicate(element, index));
+  }
+
+  /**
+   * Tests whether any element passes the predicate.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    return this.table.some((element, _key, index) => predicate(element, index));
+  }
+
+  /**
+   * Tests whether every element passes the predicate.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return this.table.every((element, _key, index) => predicate(element, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Returns other as a set with this set's equality, reusing it when it already is a HashSet.
+   * A HashSet built with different hash or equality functions is used as-is,
+   * so its own notion of membership applies.
+   */
+  private toLookup(other: Iterable<T>): HashSet<T> {
+    return other instanceof HashSet ? other : HashSet.from(other, this.options);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Hash-based data structures
+ */
+
+export { HashMap } from "./hash-map";
+export type { HashMapOptions } from "./hash-map";
+export { HashSet } from "./hash-set";
+export type { HashSetOptions } from "./hash-set";
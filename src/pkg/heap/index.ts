@@ -0,0 +1,7 @@
+/**
+ * Heap data structures
+ */
+
+export { PriorityQueue } from "./priority-queue";
+export { IndexedPriorityQueue } from "./indexed-priority-queue";
+export type { PriorityQueueHandle } from "./indexed-priority-queue";
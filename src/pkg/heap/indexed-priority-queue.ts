@@ -0,0 +1,338 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IIterable } from "../interfaces/iterable.interface";
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { ComparatorFn, EqualityFn, defaultComparator, defaultEquality } from "../../types";
+
+declare const heapHandleBrand: unique symbol;
+
+/**
+ * Opaque reference to an element of an IndexedPriorityQueue.
+ * Returned by push() and accepted by updatePriority() and remove().
+ * A handle is only valid for the queue that created it, and only until
+ * its element is popped or removed.
+ */
+export interface PriorityQueueHandle<T> {
+  readonly value: T;
+  readonly [heapHandleBrand]: true;
+}
+
+/**
+ * Heap slot for one element.
+ * `index` tracks the entry's position in the heap array; `owner` is null once removed.
+ */
+class HeapEntry<T> {
+  constructor(
+    public value: T,
+    public index: number,
+    public owner: IndexedPriorityQueue<T> | null
+  ) {}
+}
+
+/**
+ * Priority queue whose elements can be reprioritized or removed in place.
+ *
+ * push() returns a handle to the element. After the element's priority
+ * changes, updatePriority(handle) moves it to its new position in
+ * O(log n), which is the decrease-key step of Dijkstra's algorithm and
+ * the reschedule step of a job scheduler. remove(handle) cancels an
+ * element in O(log n).
+ *
+ * Performance Characteristics:
+ * - push/pop/updatePriority/remove: O(log n)
+ * - peek: O(1)
+ *
+ * @example
+ * ```typescript
+ * const queue = new IndexedPriorityQueue<Visit>(comparing((visit) => visit.distance));
+ * const handle = queue.push({ node: 'b', distance: Infinity });
+ * queue.updatePriority(handle, { node: 'b', distance: 7 });
+ * ```
+ */
+export class IndexedPriorityQueue<T> implements ICollection<T>, IIterable<T> {
+  private heap: HeapEntry<T>[] = [];
+  private modCount = 0;
+
+  constructor(
+    private readonly comparator: ComparatorFn<T> = defaultComparator,
+    private readonly equalityFn: EqualityFn<T> = defaultEquality
+  ) {}
+
+  /**
+   * Returns the number of elements in the queue.
+   */
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Checks if the queue is empty.
+   */
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  /**
+   * Adds an element.
+   * Time Complexity: O(log n)
+   *
+   * @param value - The element to add
+   * @returns A handle for updatePriority() and remove()
+   */
+  push(value: T): PriorityQueueHandle<T> {
+    const entry = new HeapEntry(value, this.heap.length, this);
+    this.heap.push(entry);
+    this.siftUp(entry.index);
+    this.modCount++;
+    return this.toHandle(entry);
+  }
+
+  /**
+   * Removes and returns the front element.
+   * Time Complexity: O(log n)
+   *
+   * @returns The front element, or undefined if the queue is empty
+   */
+  pop(): T | undefined {
+    const top = this.heap[0];
+    if (top === undefined) return undefined;
+    this.removeAt(0);
+    return top.value;
+  }
+
+  /**
+   * Returns the front element without removing it.
+   * Time Complexity: O(1)
+   */
+  peek(): T | undefined {
+    return this.heap[0]?.value;
+  }
+
+  /**
+   * Returns a handle to the front element without removing it.
+   * Time Complexity: O(1)
+   */
+  peekHandle(): PriorityQueueHandle<T> | undefined {
+    const top = this.heap[0];
+    return top === undefined ? undefined : this.toHandle(top);
+  }
+
+  /**
+   * Checks if a handle still refers to an element of this queue.
+   * Time Complexity: O(1)
+   */
+  has(handle: PriorityQueueHandle<T>): boolean {
+    const entry = handle as unknown as HeapEntry<T>;
+    return entry instanceof HeapEntry && entry.owner === this;
+  }
+
+  /**
+   * Restores heap order after an element's priority changed.
+   * Pass a new value to replace the element, or omit it after mutating
+   * the element in place. Either direction (more or less urgent) works.
+   * Time Complexity: O(log n)
+   *
+   * @param handle - Handle returned by push()
+   * @param value - Optional replacement element
+   * @throws If the handle belongs to another queue or its element was removed
+   */
+  updatePriority(handle: PriorityQueueHandle<T>, ...value: [T?]): void {
+    const entry = this.resolve(handle);
+    if (value.length > 0) {
+      entry.value = value[0] as T;
+    }
+    this.siftUp(entry.index);
+    this.siftDown(entry.index);
+    this.modCount++;
+  }
+
+  /**
+   * Removes the element a handle refers to.
+   * Time Complexity: O(log n)
+   *
+   * @param handle - Handle returned by push()
+   * @returns The removed element
+   * @throws If the handle belongs to another queue or its element was removed
+   */
+  remove(handle: PriorityQueueHandle<T>): T {
+    const entry = this.resolve(handle);
+    this.removeAt(entry.index);
+    return entry.value;
+  }
+
+  /**
+   * Removes all elements from the queue and invalidates their handles.
+   */
+  clear(): void {
+    for (const entry of this.heap) {
+      entry.owner = null;
+    }
+    this.heap = [];
+    this.modCount++;
+  }
+
+  /**
+   * Checks if the queue contains an element, using the configured equality.
+   * Time Complexity: O(n)
+   */
+  contains(element: T): boolean {
+    return this.heap.some((entry) => this.equalityFn(entry.value, element));
+  }
+
+  /**
+   * Converts the queue to an array in heap order.
+   */
+  toArray(): T[] {
+    return this.heap.map((entry) => entry.value);
+  }
+
+  /**
+   * Iterates elements in heap order.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this.heap.length; i++) {
+      yield this.heap[i]!.value;
+      this.assertUnmodified(expectedModCount);
+    }
+  }
+
+  /**
+   * Executes a function for each element, in heap order.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this.heap.length; i++) {
+      callback(this.heap[i]!.value, i);
+      this.assertUnmodified(expectedModCount);
+    }
+  }
+
+  /**
+   * Maps elements, in heap order, to a new array.
+   */
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    const result: U[] = [];
+    this.forEach((element, index) => {
+      result.push(callback(element, index));
+    });
+    return result;
+  }
+
+  /**
+   * Returns the elements that pass the predicate, in heap order.
+   */
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    const result: T[] = [];
+    this.forEach((element, index) => {
+      if (predicate(element, index)) result.push(element);
+    });
+    return result;
+  }
+
+  /**
+   * Tests whether any element passes the predicate.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this.heap.length; i++) {
+      const matched = predicate(this.heap[i]!.value, i);
+      this.assertUnmodified(expectedModCount);
+      if (matched) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Tests whether every element passes the predicate.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return !this.some((element, index) => !predicate(element, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Removes the entry at a heap position by moving the last entry into it
+   * and sifting that entry whichever way it needs to go.
+   */
+  private removeAt(index: number): void {
+    const heap = this.heap;
+    const removed = heap[index]!;
+    const last = heap.pop()!;
+    if (last !== removed) {
+      heap[index] = last;
+      last.index = index;
+      this.siftUp(index);
+      this.siftDown(last.index);
+    }
+    removed.owner = null;
+    removed.index = -1;
+    this.modCount++;
+  }
+
+  /**
+   * Moves the entry at index up until its parent is ordered before it.
+   */
+  private siftUp(index: number): void {
+    const heap = this.heap;
+    const entry = heap[index]!;
+    while (index > 0) {
+      const parent = (index - 1) >>> 1;
+      const parentEntry = heap[parent]!;
+      if (this.comparator(entry.value, parentEntry.value) >= 0) break;
+      heap[index] = parentEntry;
+      parentEntry.index = index;
+      index = parent;
+    }
+    heap[index] = entry;
+    entry.index = index;
+  }
+
+  /**
+   * Moves the entry at index down until both children are ordered after it.
+   */
+  private siftDown(index: number): void {
+    const heap = this.heap;
+    const length = heap.length;
+    const entry = heap[index]!;
+    for (;;) {
+      let child = 2 * index + 1;
+      if (child >= length) break;
+      if (child + 1 < length && this.comparator(heap[child + 1]!.value, heap[child]!.value) < 0) {
+        child++;
+      }
+      const childEntry = heap[child]!;
+      if (this.comparator(childEntry.value, entry.value) >= 0) break;
+      heap[index] = childEntry;
+      childEntry.index = index;
+      index = child;
+    }
+    heap[index] = entry;
+    entry.index = index;
+  }
+
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('IndexedPriorityQueue was modified during iteration');
+    }
+  }
+
+  /**
+   * Resolves a handle to its entry, rejecting foreign or removed handles.
+   */
+  private resolve(handle: PriorityQueueHandle<T>): HeapEntry<T> {
+    if (!this.has(handle)) {
+      throw new Error('IndexedPriorityQueue handle does not belong to this queue or was removed');
+    }
+    return handle as unknown as HeapEntry<T>;
+  }
+
+  /**
+   * Exposes an entry as an opaque handle.
+   */
+  private toHandle(entry: HeapEntry<T>): PriorityQueueHandle<T> {
+    return entry as unknown as PriorityQueueHandle<T>;
+  }
+}
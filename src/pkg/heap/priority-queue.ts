@@ -0,0 +1,321 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IIterable } from "../interfaces/iterable.interface";
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { ComparatorFn, EqualityFn, defaultComparator, defaultEquality } from "../../types";
+
+/**
+ * Priority queue backed by an array binary heap.
+ *
+ * The element the comparator orders first is always at the front, so the
+ * default comparator gives a min-heap. Pass reversed(comparator) for a
+ * max-heap, or comparing(job => job.deadline) to order by a field.
+ *
+ * Performance Characteristics:
+ * - push/pop/pushPop/replace: O(log n)
+ * - peek: O(1)
+ * - heapify(iterable): O(n)
+ * - sorted(): O(k log k) for the first k elements, without modifying the queue
+ *
+ * Plain iteration, toArray() and the callback methods visit elements in
+ * heap order, which is not sorted; use sorted() for priority order.
+ *
+ * @example
+ * ```typescript
+ * const jobs = new PriorityQueue<Job>(comparing((job) => job.runAt));
+ * jobs.push(job);
+ * const next = jobs.pop();
+ * ```
+ */
+export class PriorityQueue<T> implements ICollection<T>, IIterable<T> {
+  private heap: T[] = [];
+  private modCount = 0;
+
+  constructor(
+    private readonly comparator: ComparatorFn<T> = defaultComparator,
+    private readonly equalityFn: EqualityFn<T> = defaultEquality
+  ) {}
+
+  /**
+   * Builds a priority queue from any iterable in linear time.
+   * Faster than pushing elements one by one, which costs O(n log n).
+   * Time Complexity: O(n)
+   *
+   * @param source - The elements to add
+   * @param comparator - Ordering; the first element is popped first
+   * @param equalityFn - Equality used by contains()
+   */
+  static heapify<T>(
+    source: Iterable<T>,
+    comparator: ComparatorFn<T> = defaultComparator,
+    equalityFn: EqualityFn<T> = defaultEquality
+  ): PriorityQueue<T> {
+    const queue = new PriorityQueue<T>(comparator, equalityFn);
+    queue.heap = Array.from(source);
+    // Sift down every parent, last first; leaves are already heaps
+    for (let i = (queue.heap.length >>> 1) - 1; i >= 0; i--) {
+      queue.siftDown(i);
+    }
+    return queue;
+  }
+
+  /**
+   * Returns the number of elements in the queue.
+   */
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Checks if the queue is empty.
+   */
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  /**
+   * Adds an element.
+   * Time Complexity: O(log n)
+   *
+   * @param value - The element to add
+   */
+  push(value: T): void {
+    this.heap.push(value);
+    this.siftUp(this.heap.length - 1);
+    this.modCount++;
+  }
+
+  /**
+   * Removes and returns the front element.
+   * Time Complexity: O(log n)
+   *
+   * @returns The front element, or undefined if the queue is empty
+   */
+  pop(): T | undefined {
+    const heap = this.heap;
+    if (heap.length === 0) return undefined;
+
+    const top = heap[0]!;
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      this.siftDown(0);
+    }
+    this.modCount++;
+    return top;
+  }
+
+  /**
+   * Returns the front element without removing it.
+   * Time Complexity: O(1)
+   */
+  peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  /**
+   * Pushes an element and then pops the front, in a single sift.
+   * Returns the new element straight away if it would be popped first.
+   * Time Complexity: O(log n)
+   *
+   * @param value - The element to add
+   * @returns The front element after adding value
+   */
+  pushPop(value: T): T {
+    const heap = this.heap;
+    if (heap.length === 0 || this.comparator(value, heap[0]!) <= 0) {
+      return value;
+    }
+
+    const top = heap[0]!;
+    heap[0] = value;
+    this.siftDown(0);
+    this.modCount++;
+    return top;
+  }
+
+  /**
+   * Pops the front element and then pushes a new one, in a single sift.
+   * Unlike pushPop, the returned element is never the new one, which makes
+   * this the right call for keeping a fixed-size heap of the top k elements.
+   * Time Complexity: O(log n)
+   *
+   * @param value - The element to add
+   * @returns The previous front element, or undefined if the queue was empty
+   */
+  replace(value: T): T | undefined {
+    const heap = this.heap;
+    if (heap.length === 0) {
+      this.push(value);
+      return undefined;
+    }
+
+    const top = heap[0]!;
+    heap[0] = value;
+    this.siftDown(0);
+    this.modCount++;
+    return top;
+  }
+
+  /**
+   * Iterates elements in priority order without modifying the queue.
+   * Elements are produced lazily from a side heap, so reading only the
+   * first k costs O(k log k). Modifying the queue while iterating throws
+   * a ConcurrentModificationError.
+   *
+   * @example
+   * ```typescript
+   * const topThree = from(queue.sorted()).take(3).toArray();
+   * ```
+   */
+  *sorted(): IterableIterator<T> {
+    const heap = this.heap;
+    const expectedModCount = this.modCount;
+    // Frontier of heap positions not yet produced, itself kept as a heap
+    const frontier = new PriorityQueue<number>((a, b) => this.comparator(heap[a]!, heap[b]!));
+    if (heap.length > 0) frontier.push(0);
+
+    while (!frontier.isEmpty()) {
+      const index = frontier.pop()!;
+      yield heap[index]!;
+      this.assertUnmodified(expectedModCount);
+
+      const left = 2 * index + 1;
+      if (left < heap.length) frontier.push(left);
+      if (left + 1 < heap.length) frontier.push(left + 1);
+    }
+  }
+
+  /**
+   * Removes all elements from the queue.
+   */
+  clear(): void {
+    this.heap = [];
+    this.modCount++;
+  }
+
+  /**
+   * Checks if the queue contains an element, using the configured equality.
+   * Time Complexity: O(n)
+   */
+  contains(element: T): boolean {
+    return this.heap.some((value) => this.equalityFn(value, element));
+  }
+
+  /**
+   * Converts the queue to an array in heap order.
+   * Use [...queue.sorted()] for priority order.
+   */
+  toArray(): T[] {
+    return this.heap.slice();
+  }
+
+  /**
+   * Iterates elements in heap order.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this.heap.length; i++) {
+      yield this.heap[i]!;
+      this.assertUnmodified(expectedModCount);
+    }
+  }
+
+  /**
+   * Executes a function for each element, in heap order.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this.heap.length; i++) {
+      callback(this.heap[i]!, i);
+      this.assertUnmodified(expectedModCount);
+    }
+  }
+
+  /**
+   * Maps elements, in heap order, to a new array.
+   */
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    const result: U[] = [];
+    this.forEach((element, index) => {
+      result.push(callback(element, index));
+    });
+    return result;
+  }
+
+  /**
+   * Returns the elements that pass the predicate, in heap order.
+   */
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    const result: T[] = [];
+    this.forEach((element, index) => {
+      if (predicate(element, index)) result.push(element);
+    });
+    return result;
+  }
+
+  /**
+   * Tests whether any element passes the predicate.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this.heap.length; i++) {
+      const matched = predicate(this.heap[i]!, i);
+      this.assertUnmodified(expectedModCount);
+      if (matched) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Tests whether every element passes the predicate.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return !this.some((element, index) => !predicate(element, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Moves the element at index up until its parent is ordered before it.
+   * Shifts parents down into the hole instead of swapping at each level.
+   */
+  private siftUp(index: number): void {
+    const heap = this.heap;
+    const value = heap[index]!;
+    while (index > 0) {
+      const parent = (index - 1) >>> 1;
+      if (this.comparator(value, heap[parent]!) >= 0) break;
+      heap[index] = heap[parent]!;
+      index = parent;
+    }
+    heap[index] = value;
+  }
+
+  /**
+   * Moves the element at index down until both children are ordered after it.
+   */
+  private siftDown(index: number): void {
+    const heap = this.heap;
+    const length = heap.length;
+    const value = heap[index]!;
+    for (;;) {
+      let child = 2 * index + 1;
+      if (child >= length) break;
+      if (child + 1 < length && this.comparator(heap[child + 1]!, heap[child]!) < 0) {
+        child++;
+      }
+      if (this.comparator(heap[child]!, value) >= 0) break;
+      heap[index] = heap[child]!;
+      index = child;
+    }
+    heap[index] = value;
+  }
+
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('PriorityQueue was modified during iteration');
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { IReadonlyCollection } from "./readonly-collection.interface";
+import { IIterable, IKeyedIterable } from "./iterable.interface";
+
+/**
+ * Statistics reported by every cache implementation.
+ */
+export interface CacheStats {
+  size: number;
+  capacity: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+  utilization: number;
+}
+
+/**
+ * Common contract for key-value caches, regardless of eviction policy.
+ * Lets LRU, LFU, ARC and W-TinyLFU caches be swapped by configuration.
+ */
+export interface ICache<K, V> {
+  /**
+   * Returns the number of entries in the cache.
+   */
+  readonly size: number;
+
+  /**
+   * Returns the maximum number of entries the cache holds.
+   */
+  readonly maxCapacity: number;
+
+  /**
+   * Retrieves a value and records the access for the eviction policy.
+   * @param key - The key to look up
+   */
+  get(key: K): V | undefined;
+
+  /**
+   * Inserts or updates an entry, evicting according to the policy if full.
+   * @param key - The key to insert/update
+   * @param value - The value to store
+   */
+  put(key: K, value: V): this;
+
+  /**
+   * Retrieves a value without recording the access.
+   * @param key - The key to peek at
+   */
+  peek(key: K): V | undefined;
+
+  /**
+   * Checks if a key is cached without recording the access.
+   * @param key - The key to check
+   */
+  has(key: K): boolean;
+
+  /**
+   * Removes an entry.
+   * @param key - The key to delete
+   * @returns true if the key existed, false otherwise
+   */
+  delete(key: K): boolean;
+
+  /**
+   * Removes all entries and resets statistics.
+   */
+  clear(): void;
+
+  /**
+   * Returns cache statistics for monitoring and debugging.
+   */
+  getStats(): CacheStats;
+}
+
+/**
+ * Read-only view of a key-value cache.
+ * Lookups never record accesses, so reading through the view does not
+ * change recency or statistics.
+ * Callbacks receive (value, key, index), as defined by IKeyedIterable.
+ */
+export interface IReadonlyCache<K, V>
+  extends Omit<IReadonlyCollection<V>, keyof IIterable<V>>, IKeyedIterable<K, V> {
+  /**
+   * Returns the maximum number of entries the cache holds.
+   */
+  readonly maxCapacity: number;
+
+  /**
+   * Returns a value without recording an access.
+   */
+  peek(key: K): V | undefined;
+
+  /**
+   * Checks if a key exists, without recording an access.
+   */
+  has(key: K): boolean;
+
+  /**
+   * Iterates keys, most recently used first.
+   */
+  keys(): IterableIterator<K>;
+
+  /**
+   * Iterates values, most recently used first.
+   */
+  values(): IterableIterator<V>;
+
+  /**
+   * Iterates [key, value] entries, most recently used first.
+   */
+  entries(): IterableIterator<[K, V]>;
+}
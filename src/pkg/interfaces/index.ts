@@ -2,5 +2,7 @@
  * Core interfaces for Aethel.TS data structures
  */
 
-export { ICollection } from "./collection.inteface";
-export { IIterable } from "./iterable.interface";
\ No newline at end of file
+export type { ICollection } from "./collection.inteface";
+export type { IIterable, IKeyedIterable, IMutableIterator } from "./iterable.interface";
+export type { IReadonlyCollection, IReadonlyList } from "./readonly-collection.interface";
+export type { ICache, CacheStats, IReadonlyCache } from "./cache.interface";
@@ -1,3 +1,17 @@
+/**
+ * Iterator that can safely remove the element it last returned.
+ * Removing through the iterator is the only structural change allowed
+ * while iterating; any other change makes the next step throw a
+ * ConcurrentModificationError.
+ */
+export interface IMutableIterator<T> extends IterableIterator<T> {
+  /**
+   * Removes the element last returned by next().
+   * @throws If next() has not returned an element since the last remove()
+   */
+  remove(): void;
+}
+
 /**
  * Interface for collections that support iteration.
  * Enables use of for...of loops and spread operators.
@@ -41,4 +55,50 @@ export interface IIterable<T> {
    * @param predicate - Function to test each element
    */
   every(predicate: (element: T, index: number) => boolean): boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * Iteration contract for key-value collections.
+ * Iterates values like IIterable, but callbacks receive (value, key, index)
+ * in Map.prototype.forEach order, so the key is always at hand.
+ */
+export interface IKeyedIterable<K, V> {
+  /**
+   * Returns an iterator over the values in the collection.
+   */
+  [Symbol.iterator](): Iterator<V>;
+
+  /**
+   * Executes a provided function once for each entry.
+   * @param callback - Function to execute for each entry
+   */
+  forEach(callback: (value: V, key: K, index: number) => void): void;
+
+  /**
+   * Creates a new array with the results of calling a provided function
+   * on every entry in the collection.
+   * @param callback - Function that produces an element of the new array
+   */
+  map<U>(callback: (value: V, key: K, index: number) => U): U[];
+
+  /**
+   * Creates a new array with the values of all entries that pass the test
+   * implemented by the provided function.
+   * @param predicate - Function to test each entry
+   */
+  filter(predicate: (value: V, key: K, index: number) => boolean): V[];
+
+  /**
+   * Tests whether at least one entry passes the test
+   * implemented by the provided function.
+   * @param predicate - Function to test each entry
+   */
+  some(predicate: (value: V, key: K, index: number) => boolean): boolean;
+
+  /**
+   * Tests whether all entries pass the test
+   * implemented by the provided function.
+   * @param predicate - Function to test each entry
+   */
+  every(predicate: (value: V, key: K, index: number) => boolean): boolean;
+}
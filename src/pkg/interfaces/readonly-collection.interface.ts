@@ -0,0 +1,91 @@
+import { IIterable } from "./iterable.interface";
+
+/**
+ * Read-only counterpart of ICollection.
+ * Exposes queries and iteration but no mutators, so a collection can be
+ * handed to code that must not change it.
+ */
+export interface IReadonlyCollection<T> extends IIterable<T> {
+  /**
+   * Returns the number of elements in the collection.
+   */
+  readonly size: number;
+
+  /**
+   * Checks if the collection is empty.
+   */
+  isEmpty(): boolean;
+
+  /**
+   * Checks if the collection contains the specified element.
+   * @param element - The element to search for
+   */
+  contains(element: T): boolean;
+
+  /**
+   * Converts the collection to a new array.
+   */
+  toArray(): T[];
+}
+
+/**
+ * Read-only view of an ordered, index-addressable list.
+ */
+export interface IReadonlyList<T> extends IReadonlyCollection<T> {
+  /**
+   * Gets the element at the specified index.
+   */
+  get(index: number): T | undefined;
+
+  /**
+   * Gets the element at the specified index. Negative indices count from the end.
+   */
+  at(index: number): T | undefined;
+
+  /**
+   * Returns the first element.
+   */
+  peekFirst(): T | undefined;
+
+  /**
+   * Returns the last element.
+   */
+  peekLast(): T | undefined;
+
+  /**
+   * Returns the index of the first equal element, or -1.
+   */
+  indexOf(element: T): number;
+
+  /**
+   * Returns the index of the last equal element, or -1.
+   */
+  lastIndexOf(element: T): number;
+
+  /**
+   * Returns the first element satisfying the predicate.
+   */
+  find(predicate: (element: T, index: number) => boolean): T | undefined;
+
+  /**
+   * Returns the last element satisfying the predicate.
+   */
+  findLast(predicate: (element: T, index: number) => boolean): T | undefined;
+
+  /**
+   * Returns the index of the first element satisfying the predicate, or -1.
+   */
+  findIndex(predicate: (element: T, index: number) => boolean): number;
+
+  /**
+   * Reduces the elements from first to last to a single value.
+   */
+  reduce(callback: (accumulator: T, element: T, index: number) => T): T;
+  reduce<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U;
+
+  /**
+   * Reduces the elements from last to first to a single value.
+   */
+  reduceRight(callback: (accumulator: T, element: T, index: number) => T): T;
+  reduceRight<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U;
+}
@@ -1,39 +1,164 @@
 import { ICollection } from "../interfaces/collection.inteface";
-import { IIterable } from "../interfaces/iterable.interface";
-import { EqualityFn, defaultEquality } from '../../types.js';
+import { IIterable, IMutableIterator } from "../interfaces/iterable.interface";
+import { IReadonlyList } from "../interfaces/readonly-collection.interface";
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { ComparatorFn, EqualityFn, defaultComparator, defaultEquality } from '../../types.js';
+import { ReadonlyListView } from "./readonly-list-view";
+
+declare const nodeHandleBrand: unique symbol;
+
+/**
+ * Opaque reference to an element of a DoublyLinkedList.
+ * Returned by addFirst/addLast/insertBefore/insertAfter and accepted by the
+ * O(1) node operations. A handle is only valid for the list that created it,
+ * and only until its element is removed.
+ */
+export interface ListNodeHandle<T> {
+  readonly value: T;
+  readonly [nodeHandleBrand]: true;
+}
+
+/**
+ * Bidirectional cursor over a DoublyLinkedList.
+ * The cursor sits between elements: next() returns the element after it,
+ * prev() the element before it. Edits made through the cursor are safe
+ * during traversal; any other structural change to the list makes the
+ * cursor throw a ConcurrentModificationError.
+ */
+export interface ListCursor<T> {
+  /**
+   * Index of the element next() would return.
+   */
+  readonly index: number;
+
+  /**
+   * Checks if next() has an element to return.
+   */
+  hasNext(): boolean;
+
+  /**
+   * Checks if prev() has an element to return.
+   */
+  hasPrev(): boolean;
+
+  /**
+   * Advances past the next element and returns it, or undefined at the end.
+   */
+  next(): T | undefined;
+
+  /**
+   * Moves back past the previous element and returns it, or undefined at the start.
+   */
+  prev(): T | undefined;
+
+  /**
+   * Inserts an element at the cursor position: a following prev() returns it,
+   * while next() is unaffected.
+   * @returns A handle to the inserted element
+   */
+  insert(value: T): ListNodeHandle<T>;
+
+  /**
+   * Removes the element last returned by next() or prev().
+   * @throws If next()/prev() has not been called since the last insert/remove
+   */
+  remove(): T;
+}
+
+/**
+ * Ownership token shared by the nodes of a list.
+ * append() re-parents the donor's token instead of touching every node, so
+ * the owning list is found by following parents to the root token.
+ */
+class ListOwner<T> {
+  parent: ListOwner<T> | null = null;
+
+  constructor(public list: DoublyLinkedList<T> | null) {}
+}
 
 /**
  * Node in a doubly linked list.
+ * `owner` leads to the owning list while the node is linked, and is null once removed.
  */
 class DoublyLinkedListNode<T> {
   constructor(
     public value: T,
     public prev: DoublyLinkedListNode<T> | null = null,
-    public next: DoublyLinkedListNode<T> | null = null
+    public next: DoublyLinkedListNode<T> | null = null,
+    public owner: ListOwner<T> | null = null
   ) {}
 }
 
+/**
+ * Returns the list a node currently belongs to, or null if it was removed.
+ * Compresses the token path so repeated lookups stay O(1).
+ */
+function ownerOf<T>(node: DoublyLinkedListNode<T>): DoublyLinkedList<T> | null {
+  let token = node.owner;
+  if (token === null) return null;
+
+  while (token.parent !== null) {
+    token = token.parent;
+  }
+  node.owner = token;
+  return token.list;
+}
+
 /**
  * A high-performance doubly linked list implementation.
  * 
  * Performance Characteristics:
  * - addFirst/addLast: O(1)
  * - removeFirst/removeLast: O(1)
+ * - insertBefore/insertAfter/removeNode/moveToFront (by handle): O(1)
+ * - cursor next/prev/insert/remove: O(1)
+ * - append(otherList): O(1)
+ * - sort(): O(n log n), stable, in place with O(1) extra space
  * - get(index): O(n)
  * - remove(index): O(n)
  * 
  * Memory: O(n) where n is the number of elements
+ * 
+ * Iteration is fail-fast: iterators, cursors and callback methods throw a
+ * ConcurrentModificationError if the list is structurally modified while they
+ * run. Remove elements mid-iteration through the iterator or cursor instead.
  */
 export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
   private head: DoublyLinkedListNode<T> | null = null;
   private tail: DoublyLinkedListNode<T> | null = null;
   private _size = 0;
   private equalityFn: EqualityFn<T>;
+  private owner: ListOwner<T> = new ListOwner<T>(this);
+  // Bumped on every structural change so iterators can fail fast
+  private modCount = 0;
 
   constructor(equalityFn: EqualityFn<T> = defaultEquality) {
     this.equalityFn = equalityFn;
   }
 
+  /**
+   * Builds a list from an async (or sync) source, such as a Readable stream
+   * in object mode, preserving arrival order.
+   * 
+   * @example
+   * ```typescript
+   * const records = await DoublyLinkedList.fromAsyncIterable(recordStream);
+   * ```
+   * 
+   * @param source - The elements to append
+   * @param equalityFn - Equality for the new list, defaults to defaultEquality
+   */
+  static async fromAsyncIterable<T>(
+    source: AsyncIterable<T> | Iterable<T>,
+    equalityFn: EqualityFn<T> = defaultEquality
+  ): Promise<DoublyLinkedList<T>> {
+    const list = new DoublyLinkedList<T>(equalityFn);
+    for await (const element of source) {
+      list.addLast(element);
+    }
+    return list;
+  }
+
   /**
    * Returns the number of elements in the list.
    */
@@ -51,37 +176,21 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
   /**
    * Adds an element to the beginning of the list.
    * Time Complexity: O(1)
+   * 
+   * @returns A handle to the new element
    */
-  addFirst(value: T): void {
-    const newNode = new DoublyLinkedListNode(value);
-    
-    if (this.head === null) {
-      this.head = this.tail = newNode;
-    } else {
-      newNode.next = this.head;
-      this.head.prev = newNode;
-      this.head = newNode;
-    }
-    
-    this._size++;
+  addFirst(value: T): ListNodeHandle<T> {
+    return this.linkBefore(value, this.head);
   }
 
   /**
    * Adds an element to the end of the list.
    * Time Complexity: O(1)
+   * 
+   * @returns A handle to the new element
    */
-  addLast(value: T): void {
-    const newNode = new DoublyLinkedListNode(value);
-    
-    if (this.tail === null) {
-      this.head = this.tail = newNode;
-    } else {
-      newNode.prev = this.tail;
-      this.tail.next = newNode;
-      this.tail = newNode;
-    }
-    
-    this._size++;
+  addLast(value: T): ListNodeHandle<T> {
+    return this.linkBefore(value, null);
   }
 
   /**
@@ -90,18 +199,7 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
    */
   removeFirst(): T | undefined {
     if (this.head === null) return undefined;
-    
-    const value = this.head.value;
-    this.head = this.head.next;
-    
-    if (this.head === null) {
-      this.tail = null;
-    } else {
-      this.head.prev = null;
-    }
-    
-    this._size--;
-    return value;
+    return this.unlink(this.head);
   }
 
   /**
@@ -110,18 +208,148 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
    */
   removeLast(): T | undefined {
     if (this.tail === null) return undefined;
-    
-    const value = this.tail.value;
-    this.tail = this.tail.prev;
-    
-    if (this.tail === null) {
-      this.head = null;
-    } else {
-      this.tail.next = null;
-    }
-    
-    this._size--;
-    return value;
+    return this.unlink(this.tail);
+  }
+
+  /**
+   * Returns a handle to the first element, or undefined if the list is empty.
+   */
+  firstNode(): ListNodeHandle<T> | undefined {
+    return this.head !== null ? this.toHandle(this.head) : undefined;
+  }
+
+  /**
+   * Returns a handle to the last element, or undefined if the list is empty.
+   */
+  lastNode(): ListNodeHandle<T> | undefined {
+    return this.tail !== null ? this.toHandle(this.tail) : undefined;
+  }
+
+  /**
+   * Inserts an element immediately before the referenced element.
+   * Time Complexity: O(1)
+   * 
+   * @throws If the handle belongs to another list or was removed
+   * @returns A handle to the new element
+   */
+  insertBefore(handle: ListNodeHandle<T>, value: T): ListNodeHandle<T> {
+    return this.linkBefore(value, this.resolve(handle));
+  }
+
+  /**
+   * Inserts an element immediately after the referenced element.
+   * Time Complexity: O(1)
+   * 
+   * @throws If the handle belongs to another list or was removed
+   * @returns A handle to the new element
+   */
+  insertAfter(handle: ListNodeHandle<T>, value: T): ListNodeHandle<T> {
+    return this.linkBefore(value, this.resolve(handle).next);
+  }
+
+  /**
+   * Removes the referenced element. The handle becomes invalid.
+   * Time Complexity: O(1)
+   * 
+   * @throws If the handle belongs to another list or was removed
+   * @returns The removed value
+   */
+  removeNode(handle: ListNodeHandle<T>): T {
+    return this.unlink(this.resolve(handle));
+  }
+
+  /**
+   * Moves the referenced element to the beginning of the list.
+   * The handle stays valid.
+   * Time Complexity: O(1)
+   * 
+   * @throws If the handle belongs to another list or was removed
+   */
+  moveToFront(handle: ListNodeHandle<T>): void {
+    const node = this.resolve(handle);
+    if (node === this.head) return;
+
+    this.detach(node);
+    this.attachBefore(node, this.head);
+  }
+
+  /**
+   * Moves the referenced element to the end of the list.
+   * The handle stays valid.
+   * Time Complexity: O(1)
+   * 
+   * @throws If the handle belongs to another list or was removed
+   */
+  moveToBack(handle: ListNodeHandle<T>): void {
+    const node = this.resolve(handle);
+    if (node === this.tail) return;
+
+    this.detach(node);
+    this.attachBefore(node, null);
+  }
+
+  /**
+   * Returns a bidirectional cursor positioned before the referenced element,
+   * or before the first element if no handle is given.
+   * 
+   * @throws If the handle belongs to another list or was removed
+   */
+  cursor(handle?: ListNodeHandle<T>): ListCursor<T> {
+    const list = this;
+    let nextNode: DoublyLinkedListNode<T> | null =
+      handle !== undefined ? this.resolve(handle) : this.head;
+    let lastReturned: DoublyLinkedListNode<T> | null = null;
+    let index = handle !== undefined ? this.indexOfNode(nextNode!) : 0;
+    let expectedModCount = this.modCount;
+
+    return {
+      get index() {
+        return index;
+      },
+      hasNext: () => nextNode !== null,
+      hasPrev: () => (nextNode !== null ? nextNode.prev : list.tail) !== null,
+      next: () => {
+        list.assertUnmodified(expectedModCount);
+        if (nextNode === null) return undefined;
+        lastReturned = nextNode;
+        nextNode = nextNode.next;
+        index++;
+        return lastReturned.value;
+      },
+      prev: () => {
+        list.assertUnmodified(expectedModCount);
+        const previous: DoublyLinkedListNode<T> | null = nextNode !== null ? nextNode.prev : list.tail;
+        if (previous === null) return undefined;
+        lastReturned = nextNode = previous;
+        index--;
+        return previous.value;
+      },
+      insert: (value: T) => {
+        list.assertUnmodified(expectedModCount);
+        lastReturned = null;
+        index++;
+        const inserted = list.linkBefore(value, nextNode);
+        expectedModCount = list.modCount;
+        return inserted;
+      },
+      remove: () => {
+        list.assertUnmodified(expectedModCount);
+        if (lastReturned === null) {
+          throw new Error('DoublyLinkedList cursor remove() requires a preceding next() or prev()');
+        }
+        const removed = lastReturned;
+        if (removed === nextNode) {
+          // Moved backwards onto it: the cursor now sits before its successor
+          nextNode = removed.next;
+        } else {
+          index--;
+        }
+        lastReturned = null;
+        const value = list.unlink(removed);
+        expectedModCount = list.modCount;
+        return value;
+      },
+    };
   }
 
   /**
@@ -156,19 +384,288 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
   removeAt(index: number): T | undefined {
     if (index < 0 || index >= this._size) return undefined;
     
-    if (index === 0) return this.removeFirst();
-    if (index === this._size - 1) return this.removeLast();
-    
     const node = this.getNodeAt(index);
     if (!node) return undefined;
     
-    const value = node.value;
-    
-    if (node.prev) node.prev.next = node.next;
-    if (node.next) node.next.prev = node.prev;
-    
-    this._size--;
-    return value;
+    return this.unlink(node);
+  }
+
+  /**
+   * Gets the element at the specified index. Negative indices count from the end.
+   * Time Complexity: O(n)
+   * 
+   * @returns The element, or undefined if the index is out of range
+   */
+  at(index: number): T | undefined {
+    const integer = Math.trunc(index) || 0;
+    return this.get(integer < 0 ? this._size + integer : integer);
+  }
+
+  /**
+   * Replaces the element at the specified index.
+   * Time Complexity: O(n)
+   * 
+   * @throws If the index is out of bounds
+   * @returns The previous element
+   */
+  set(index: number, value: T): T {
+    const node = Number.isInteger(index) ? this.getNodeAt(index) : null;
+    if (node === null) {
+      throw new Error(`DoublyLinkedList index ${index} out of bounds (size ${this._size})`);
+    }
+
+    const previous = node.value;
+    node.value = value;
+    return previous;
+  }
+
+  /**
+   * Inserts an element at the specified index, shifting later elements back.
+   * Time Complexity: O(n)
+   * 
+   * @param index - Position from 0 to size (inclusive)
+   * @throws If the index is out of bounds
+   * @returns A handle to the new element
+   */
+  insertAt(index: number, value: T): ListNodeHandle<T> {
+    if (!Number.isInteger(index) || index < 0 || index > this._size) {
+      throw new Error(`DoublyLinkedList index ${index} out of bounds (size ${this._size})`);
+    }
+
+    return this.linkBefore(value, index === this._size ? null : this.getNodeAt(index));
+  }
+
+  /**
+   * Moves every element of another list to the end of this list.
+   * The other list is left empty; handles into it now refer to this list.
+   * Time Complexity: O(1)
+   * 
+   * @param other - The list to take over
+   * @throws If other is this list
+   * @returns This list for chaining
+   */
+  append(other: DoublyLinkedList<T>): this {
+    if (other === this) {
+      throw new Error('DoublyLinkedList cannot append itself');
+    }
+    if (other.head === null || other.tail === null) return this;
+
+    // Re-root the donor's nodes under this list and give the donor a fresh token
+    other.owner.parent = this.owner;
+    other.owner.list = null;
+    other.owner = new ListOwner<T>(other);
+
+    if (this.tail === null) {
+      this.head = other.head;
+    } else {
+      this.tail.next = other.head;
+      other.head.prev = this.tail;
+    }
+    this.tail = other.tail;
+    this._size += other._size;
+    this.modCount++;
+
+    other.head = other.tail = null;
+    other._size = 0;
+    other.modCount++;
+    return this;
+  }
+
+  /**
+   * Splits the list in two: this list keeps the elements before `index`,
+   * and the elements from `index` on are moved to the returned list.
+   * Handles to moved elements follow them to the new list.
+   * Time Complexity: O(n)
+   * 
+   * @param index - Position from 0 to size (inclusive)
+   * @throws If the index is out of bounds
+   */
+  splitAt(index: number): DoublyLinkedList<T> {
+    if (!Number.isInteger(index) || index < 0 || index > this._size) {
+      throw new Error(`DoublyLinkedList index ${index} out of bounds (size ${this._size})`);
+    }
+
+    const result = new DoublyLinkedList<T>(this.equalityFn);
+    const first = this.getNodeAt(index);
+    if (first !== null && this.tail !== null) {
+      this.transferRun(first, this.tail, this._size - index, result);
+    }
+    return result;
+  }
+
+  /**
+   * Removes `deleteCount` elements starting at `start` and inserts `items`
+   * in their place, like Array.prototype.splice.
+   * Negative `start` counts from the end. Removed elements are moved, with
+   * their handles, to the returned list.
+   * Time Complexity: O(n + items.length)
+   * 
+   * @param start - Index at which to start changing the list
+   * @param deleteCount - Number of elements to remove (defaults to the rest of the list)
+   * @param items - Elements to insert at `start`
+   * @returns A list of the removed elements
+   */
+  splice(start: number, deleteCount: number = Infinity, ...items: T[]): DoublyLinkedList<T> {
+    const from = this.clampIndex(start);
+    const count = Math.max(0, Math.min(Math.trunc(deleteCount) || 0, this._size - from));
+
+    const removed = new DoublyLinkedList<T>(this.equalityFn);
+    let successor = this.getNodeAt(from);
+
+    if (count > 0 && successor !== null) {
+      let last = successor;
+      for (let i = 1; i < count; i++) {
+        last = last.next!;
+      }
+      const after = last.next;
+      this.transferRun(successor, last, count, removed);
+      successor = after;
+    }
+
+    for (const item of items) {
+      this.linkBefore(item, successor);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Copies a range of elements into a new list, like Array.prototype.slice.
+   * Negative indices count from the end.
+   * Time Complexity: O(n)
+   * 
+   * @param start - Start index (inclusive), defaults to 0
+   * @param end - End index (exclusive), defaults to size
+   */
+  slice(start = 0, end: number = this._size): DoublyLinkedList<T> {
+    const from = this.clampIndex(start);
+    const to = this.clampIndex(end);
+
+    const result = new DoublyLinkedList<T>(this.equalityFn);
+    let current = this.getNodeAt(from);
+    for (let i = from; i < to && current !== null; i++) {
+      result.addLast(current.value);
+      current = current.next;
+    }
+    return result;
+  }
+
+  /**
+   * Reverses the list in place. Handles stay valid.
+   * Time Complexity: O(n)
+   * 
+   * @returns This list for chaining
+   */
+  reverse(): this {
+    let current = this.head;
+    while (current !== null) {
+      const next = current.next;
+      current.next = current.prev;
+      current.prev = next;
+      current = next;
+    }
+
+    const head = this.head;
+    this.head = this.tail;
+    this.tail = head;
+    this.modCount++;
+    return this;
+  }
+
+  /**
+   * Sorts the list in place with a stable bottom-up merge sort.
+   * Nodes are relinked rather than copied, so handles stay valid and no
+   * arrays are allocated.
+   * Time Complexity: O(n log n)
+   * 
+   * @param comparator - Ordering to sort by, defaults to defaultComparator
+   * @returns This list for chaining
+   */
+  sort(comparator: ComparatorFn<T> = defaultComparator): this {
+    if (this._size < 2) return this;
+
+    for (let width = 1; width < this._size; width *= 2) {
+      let left = this.head;
+      let tail: DoublyLinkedListNode<T> | null = null;
+
+      while (left !== null) {
+        let right: DoublyLinkedListNode<T> | null = left;
+        let leftSize = 0;
+        while (leftSize < width && right !== null) {
+          leftSize++;
+          right = right.next;
+        }
+        [tail, left] = this.mergeRuns(left, leftSize, right, width, tail, comparator);
+      }
+
+      tail!.next = null;
+      this.tail = tail;
+    }
+
+    return this;
+  }
+
+  /**
+   * Inserts an element after every element that does not compare greater,
+   * keeping a sorted list sorted. Appending in order is O(1).
+   * Time Complexity: O(n)
+   * 
+   * @param comparator - Ordering the list is sorted by, defaults to defaultComparator
+   * @returns A handle to the new element
+   */
+  insertSorted(value: T, comparator: ComparatorFn<T> = defaultComparator): ListNodeHandle<T> {
+    // Walk back from the tail so equal elements keep insertion order
+    let successor: DoublyLinkedListNode<T> | null = null;
+    let current = this.tail;
+    while (current !== null && comparator(current.value, value) > 0) {
+      successor = current;
+      current = current.prev;
+    }
+    return this.linkBefore(value, successor);
+  }
+
+  /**
+   * Merges another sorted list into this sorted list, taking over its nodes.
+   * The merge is stable: on ties this list's elements come first.
+   * The other list is left empty; handles into it now refer to this list.
+   * Time Complexity: O(n + m)
+   * 
+   * @param other - A list sorted by the same comparator
+   * @param comparator - Ordering both lists are sorted by, defaults to defaultComparator
+   * @throws If other is this list
+   * @returns This list for chaining
+   */
+  mergeSorted(other: DoublyLinkedList<T>, comparator: ComparatorFn<T> = defaultComparator): this {
+    if (other === this) {
+      throw new Error('DoublyLinkedList cannot merge itself');
+    }
+
+    const right = other.head;
+    const leftSize = this._size;
+    const rightSize = other._size;
+    if (right === null) return this;
+
+    // Concatenate first, then merge the two adjacent runs in one pass
+    this.append(other);
+    const [tail] = this.mergeRuns(this.head, leftSize, right, rightSize, null, comparator);
+    tail.next = null;
+    this.tail = tail;
+    return this;
+  }
+
+  /**
+   * Checks if the list is sorted by the comparator.
+   * Time Complexity: O(n)
+   * 
+   * @param comparator - Ordering to check, defaults to defaultComparator
+   */
+  isSorted(comparator: ComparatorFn<T> = defaultComparator): boolean {
+    let current = this.head;
+    while (current !== null && current.next !== null) {
+      if (comparator(current.value, current.next.value) > 0) return false;
+      current = current.next;
+    }
+    return true;
   }
 
   /**
@@ -183,6 +680,137 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
     return false;
   }
 
+  /**
+   * Returns the index of the first element equal to the given one.
+   * Time Complexity: O(n)
+   * 
+   * @returns The index, or -1 if not found
+   */
+  indexOf(element: T): number {
+    let current = this.head;
+    let index = 0;
+    while (current !== null) {
+      if (this.equalityFn(current.value, element)) return index;
+      current = current.next;
+      index++;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the index of the last element equal to the given one.
+   * Searches from the tail.
+   * Time Complexity: O(n)
+   * 
+   * @returns The index, or -1 if not found
+   */
+  lastIndexOf(element: T): number {
+    let current = this.tail;
+    let index = this._size - 1;
+    while (current !== null) {
+      if (this.equalityFn(current.value, element)) return index;
+      current = current.prev;
+      index--;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the first element satisfying the predicate.
+   * Time Complexity: O(n)
+   */
+  find(predicate: (element: T, index: number) => boolean): T | undefined {
+    const node = this.findNode(predicate);
+    return node?.value;
+  }
+
+  /**
+   * Returns the last element satisfying the predicate. Searches from the tail.
+   * Time Complexity: O(n)
+   */
+  findLast(predicate: (element: T, index: number) => boolean): T | undefined {
+    let current = this.tail;
+    let index = this._size - 1;
+    const expectedModCount = this.modCount;
+    while (current !== null) {
+      if (predicate(current.value, index)) return current.value;
+      this.assertUnmodified(expectedModCount);
+      current = current.prev;
+      index--;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the index of the first element satisfying the predicate.
+   * Time Complexity: O(n)
+   * 
+   * @returns The index, or -1 if no element matches
+   */
+  findIndex(predicate: (element: T, index: number) => boolean): number {
+    let current = this.head;
+    let index = 0;
+    const expectedModCount = this.modCount;
+    while (current !== null) {
+      if (predicate(current.value, index)) return index;
+      this.assertUnmodified(expectedModCount);
+      current = current.next;
+      index++;
+    }
+    return -1;
+  }
+
+  /**
+   * Removes the first element equal to the given one.
+   * Time Complexity: O(n)
+   * 
+   * @returns true if an element was removed, false otherwise
+   */
+  remove(element: T): boolean {
+    const node = this.findNode((value) => this.equalityFn(value, element));
+    if (node === null) return false;
+
+    this.unlink(node);
+    return true;
+  }
+
+  /**
+   * Removes every element equal to the given one.
+   * Time Complexity: O(n)
+   * 
+   * @returns The number of elements removed
+   */
+  removeAll(element: T): number {
+    return this.removeIf((value) => this.equalityFn(value, element));
+  }
+
+  /**
+   * Removes every element satisfying the predicate in a single pass.
+   * The predicate sees each element's index before any removal.
+   * Time Complexity: O(n)
+   * 
+   * @returns The number of elements removed
+   */
+  removeIf(predicate: (element: T, index: number) => boolean): number {
+    let removed = 0;
+    let current = this.head;
+    let index = 0;
+    let expectedModCount = this.modCount;
+    while (current !== null) {
+      const next: DoublyLinkedListNode<T> | null = current.next;
+      const matches = predicate(current.value, index);
+      this.assertUnmodified(expectedModCount);
+      if (matches) {
+        this.unlink(current);
+        removed++;
+        expectedModCount = this.modCount;
+      }
+      current = next;
+      index++;
+    }
+    return removed;
+  }
+
   /**
    * Removes all elements from the list.
    * Explicitly breaks circular references to prevent memory leaks.
@@ -192,14 +820,16 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
     let current = this.head;
     while (current !== null) {
       const next = current.next;
-      // Clear references
+      // Clear references and invalidate handles
       current.prev = null;
       current.next = null;
+      current.owner = null;
       current = next;
     }
 
     this.head = this.tail = null;
     this._size = 0;
+    this.modCount++;
   }
 
   /**
@@ -215,14 +845,78 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
     return result;
   }
 
+  /**
+   * Returns a zero-copy, read-only view of this list.
+   * The view reflects later changes to the list, but has no mutators, so
+   * code holding it cannot add, remove or clear elements.
+   * Time Complexity: O(1)
+   */
+  asReadonly(): IReadonlyList<T> {
+    return new ReadonlyListView(this);
+  }
+
+  /**
+   * Returns an immutable copy of the current elements.
+   * Later changes to this list do not affect the copy.
+   * Time Complexity: O(n) to copy; size on the copy is O(1)
+   */
+  freeze(): IReadonlyList<T> {
+    return this.slice().asReadonly();
+  }
+
   /**
    * Iterator implementation for for...of loops.
+   * Elements can be removed mid-iteration with the iterator's remove().
+   * 
+   * @example
+   * ```typescript
+   * const iterator = list[Symbol.iterator]();
+   * for (const value of iterator) {
+   *   if (value < 0) iterator.remove();
+   * }
+   * ```
    */
-  *[Symbol.iterator](): Iterator<T> {
-    let current = this.head;
-    while (current !== null) {
-      yield current.value;
-      current = current.next;
+  [Symbol.iterator](): IMutableIterator<T> {
+    const list = this;
+    let nextNode = this.head;
+    let lastReturned: DoublyLinkedListNode<T> | null = null;
+    let expectedModCount = this.modCount;
+
+    const iterator: IMutableIterator<T> = {
+      next(): IteratorResult<T> {
+        list.assertUnmodified(expectedModCount);
+        if (nextNode === null) {
+          lastReturned = null;
+          return { done: true, value: undefined };
+        }
+        lastReturned = nextNode;
+        nextNode = nextNode.next;
+        return { done: false, value: lastReturned.value };
+      },
+      remove(): void {
+        list.assertUnmodified(expectedModCount);
+        if (lastReturned === null) {
+          throw new Error('DoublyLinkedList iterator remove() requires a preceding next()');
+        }
+        list.unlink(lastReturned);
+        lastReturned = null;
+        expectedModCount = list.modCount;
+      },
+      [Symbol.iterator]() {
+        return iterator;
+      },
+    };
+
+    return iterator;
+  }
+
+  /**
+   * Async iterator for for await...of loops, yielding elements head to tail.
+   * Fails fast if the list is modified between steps.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    for (const element of this) {
+      yield element;
     }
   }
 
@@ -232,8 +926,10 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
   forEach(callback: (element: T, index: number) => void): void {
     let current = this.head;
     let index = 0;
+    const expectedModCount = this.modCount;
     while (current !== null) {
       callback(current.value, index);
+      this.assertUnmodified(expectedModCount);
       current = current.next;
       index++;
     }
@@ -246,8 +942,10 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
     const result: U[] = [];
     let current = this.head;
     let index = 0;
+    const expectedModCount = this.modCount;
     while (current !== null) {
       result.push(callback(current.value, index));
+      this.assertUnmodified(expectedModCount);
       current = current.next;
       index++;
     }
@@ -261,24 +959,94 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
     const result: T[] = [];
     let current = this.head;
     let index = 0;
+    const expectedModCount = this.modCount;
     while (current !== null) {
       if (predicate(current.value, index)) {
         result.push(current.value);
       }
+      this.assertUnmodified(expectedModCount);
       current = current.next;
       index++;
     }
     return result;
   }
 
+  /**
+   * Reduces the elements from head to tail to a single value.
+   * Without an initial value the first element is used.
+   * 
+   * @throws If the list is empty and no initial value is given
+   */
+  reduce(callback: (accumulator: T, element: T, index: number) => T): T;
+  reduce<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U;
+  reduce<U>(callback: (accumulator: U, element: T, index: number) => U, ...initial: [U?]): U {
+    let current = this.head;
+    let index = 0;
+    let accumulator: U;
+
+    if (initial.length > 0) {
+      accumulator = initial[0] as U;
+    } else if (current !== null) {
+      accumulator = current.value as unknown as U;
+      current = current.next;
+      index++;
+    } else {
+      throw new Error('DoublyLinkedList reduce of empty list with no initial value');
+    }
+
+    const expectedModCount = this.modCount;
+    while (current !== null) {
+      accumulator = callback(accumulator, current.value, index);
+      this.assertUnmodified(expectedModCount);
+      current = current.next;
+      index++;
+    }
+    return accumulator;
+  }
+
+  /**
+   * Reduces the elements from tail to head to a single value.
+   * Without an initial value the last element is used.
+   * 
+   * @throws If the list is empty and no initial value is given
+   */
+  reduceRight(callback: (accumulator: T, element: T, index: number) => T): T;
+  reduceRight<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U;
+  reduceRight<U>(callback: (accumulator: U, element: T, index: number) => U, ...initial: [U?]): U {
+    let current = this.tail;
+    let index = this._size - 1;
+    let accumulator: U;
+
+    if (initial.length > 0) {
+      accumulator = initial[0] as U;
+    } else if (current !== null) {
+      accumulator = current.value as unknown as U;
+      current = current.prev;
+      index--;
+    } else {
+      throw new Error('DoublyLinkedList reduceRight of empty list with no initial value');
+    }
+
+    const expectedModCount = this.modCount;
+    while (current !== null) {
+      accumulator = callback(accumulator, current.value, index);
+      this.assertUnmodified(expectedModCount);
+      current = current.prev;
+      index--;
+    }
+    return accumulator;
+  }
+
   /**
    * Tests if at least one element satisfies the predicate.
    */
   some(predicate: (element: T, index: number) => boolean): boolean {
     let current = this.head;
     let index = 0;
+    const expectedModCount = this.modCount;
     while (current !== null) {
       if (predicate(current.value, index)) return true;
+      this.assertUnmodified(expectedModCount);
       current = current.next;
       index++;
     }
@@ -291,14 +1059,235 @@ export class DoublyLinkedList<T> implements ICollection<T>, IIterable<T> {
   every(predicate: (element: T, index: number) => boolean): boolean {
     let current = this.head;
     let index = 0;
+    const expectedModCount = this.modCount;
     while (current !== null) {
       if (!predicate(current.value, index)) return false;
+      this.assertUnmodified(expectedModCount);
       current = current.next;
       index++;
     }
     return true;
   }
 
+  /**
+   * Creates a node for the value and links it before `successor`
+   * (or at the end when `successor` is null).
+   */
+  private linkBefore(value: T, successor: DoublyLinkedListNode<T> | null): ListNodeHandle<T> {
+    const node = new DoublyLinkedListNode(value, null, null, this.owner);
+    this.attachBefore(node, successor);
+    this._size++;
+    return this.toHandle(node);
+  }
+
+  /**
+   * Links a detached node before `successor` (or at the end when null).
+   * Does not change the size.
+   */
+  private attachBefore(node: DoublyLinkedListNode<T>, successor: DoublyLinkedListNode<T> | null): void {
+    this.modCount++;
+    const predecessor = successor !== null ? successor.prev : this.tail;
+
+    node.prev = predecessor;
+    node.next = successor;
+
+    if (predecessor !== null) {
+      predecessor.next = node;
+    } else {
+      this.head = node;
+    }
+
+    if (successor !== null) {
+      successor.prev = node;
+    } else {
+      this.tail = node;
+    }
+  }
+
+  /**
+   * Unlinks a node from its neighbours without invalidating it.
+   * Does not change the size.
+   */
+  private detach(node: DoublyLinkedListNode<T>): void {
+    this.modCount++;
+    if (node.prev !== null) {
+      node.prev.next = node.next;
+    } else {
+      this.head = node.next;
+    }
+
+    if (node.next !== null) {
+      node.next.prev = node.prev;
+    } else {
+      this.tail = node.prev;
+    }
+
+    node.prev = null;
+    node.next = null;
+  }
+
+  /**
+   * Removes a node from the list and invalidates its handle.
+   * @returns The removed value
+   */
+  private unlink(node: DoublyLinkedListNode<T>): T {
+    this.detach(node);
+    node.owner = null;
+    this._size--;
+    return node.value;
+  }
+
+  /**
+   * Moves the run of `count` nodes from `first` to `last` to the end of
+   * `target`, re-owning each node.
+   */
+  private transferRun(
+    first: DoublyLinkedListNode<T>,
+    last: DoublyLinkedListNode<T>,
+    count: number,
+    target: DoublyLinkedList<T>
+  ): void {
+    const before = first.prev;
+    const after = last.next;
+
+    if (before !== null) {
+      before.next = after;
+    } else {
+      this.head = after;
+    }
+    if (after !== null) {
+      after.prev = before;
+    } else {
+      this.tail = before;
+    }
+    this._size -= count;
+    this.modCount++;
+
+    let current: DoublyLinkedListNode<T> | null = first;
+    while (current !== after && current !== null) {
+      current.owner = target.owner;
+      current = current.next;
+    }
+
+    first.prev = target.tail;
+    last.next = null;
+    if (target.tail === null) {
+      target.head = first;
+    } else {
+      target.tail.next = first;
+    }
+    target.tail = last;
+    target._size += count;
+    target.modCount++;
+  }
+
+  /**
+   * Returns the first node whose value satisfies the predicate.
+   */
+  private findNode(predicate: (element: T, index: number) => boolean): DoublyLinkedListNode<T> | null {
+    let current = this.head;
+    let index = 0;
+    const expectedModCount = this.modCount;
+    while (current !== null) {
+      if (predicate(current.value, index)) return current;
+      this.assertUnmodified(expectedModCount);
+      current = current.next;
+      index++;
+    }
+    return null;
+  }
+
+  /**
+   * Merges two adjacent sorted runs, linking the merged nodes after `tail`
+   * (or at the head when `tail` is null). Ties take the left run first,
+   * which keeps the merge stable. The last node's `next` is left stale.
+   * 
+   * @returns The last merged node and the node following the right run
+   */
+  private mergeRuns(
+    left: DoublyLinkedListNode<T> | null,
+    leftSize: number,
+    right: DoublyLinkedListNode<T> | null,
+    rightSize: number,
+    tail: DoublyLinkedListNode<T> | null,
+    comparator: ComparatorFn<T>
+  ): [tail: DoublyLinkedListNode<T>, rest: DoublyLinkedListNode<T> | null] {
+    this.modCount++;
+    while (leftSize > 0 || (rightSize > 0 && right !== null)) {
+      let node: DoublyLinkedListNode<T>;
+      if (leftSize === 0 || (rightSize > 0 && right !== null && comparator(left!.value, right.value) > 0)) {
+        node = right!;
+        right = right!.next;
+        rightSize--;
+      } else {
+        node = left!;
+        left = left!.next;
+        leftSize--;
+      }
+
+      if (tail === null) {
+        this.head = node;
+      } else {
+        tail.next = node;
+      }
+      node.prev = tail;
+      tail = node;
+    }
+
+    return [tail!, right];
+  }
+
+  /**
+   * Converts a possibly negative index into a position clamped to [0, size],
+   * following Array.prototype.slice semantics.
+   */
+  private clampIndex(index: number): number {
+    const integer = Math.trunc(index) || 0;
+    if (integer < 0) return Math.max(this._size + integer, 0);
+    return Math.min(integer, this._size);
+  }
+
+  /**
+   * Throws if the list was structurally modified since `expectedModCount` was read.
+   */
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('DoublyLinkedList was modified during iteration');
+    }
+  }
+
+  /**
+   * Resolves a handle to its node, rejecting foreign or removed handles.
+   */
+  private resolve(handle: ListNodeHandle<T>): DoublyLinkedListNode<T> {
+    const node = handle as unknown as DoublyLinkedListNode<T>;
+    if (!(node instanceof DoublyLinkedListNode) || ownerOf(node) !== this) {
+      throw new Error('DoublyLinkedList node handle does not belong to this list or was removed');
+    }
+    return node;
+  }
+
+  /**
+   * Exposes a node as an opaque handle.
+   */
+  private toHandle(node: DoublyLinkedListNode<T>): ListNodeHandle<T> {
+    return node as unknown as ListNodeHandle<T>;
+  }
+
+  /**
+   * Returns the position of a node by walking from the head.
+   * Time Complexity: O(n)
+   */
+  private indexOfNode(node: DoublyLinkedListNode<T>): number {
+    let index = 0;
+    let current = this.head;
+    while (current !== null && current !== node) {
+      current = current.next;
+      index++;
+    }
+    return index;
+  }
+
   /**
    * Helper method to get node at specific index.
    * Optimizes by starting from head or tail depending on index.
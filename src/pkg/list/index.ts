@@ -2,4 +2,5 @@
  * List data structures
  */
 
-export { DoublyLinkedList } from "./doubly-linked";
\ No newline at end of file
+export { DoublyLinkedList } from "./doubly-linked";
+export type { ListNodeHandle, ListCursor } from "./doubly-linked";
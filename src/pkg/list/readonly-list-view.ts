@@ -0,0 +1,100 @@
+import type { IReadonlyList } from "../interfaces/readonly-collection.interface";
+import type { DoublyLinkedList } from "./doubly-linked";
+
+/**
+ * Zero-copy, read-only view of a DoublyLinkedList.
+ * Every call reads the live list, so changes made through the list are
+ * visible immediately. The view itself has no mutators, and its iterator
+ * does not expose remove().
+ */
+export class ReadonlyListView<T> implements IReadonlyList<T> {
+  constructor(private readonly list: DoublyLinkedList<T>) {}
+
+  get size(): number {
+    return this.list.size;
+  }
+
+  isEmpty(): boolean {
+    return this.list.isEmpty();
+  }
+
+  contains(element: T): boolean {
+    return this.list.contains(element);
+  }
+
+  toArray(): T[] {
+    return this.list.toArray();
+  }
+
+  get(index: number): T | undefined {
+    return this.list.get(index);
+  }
+
+  at(index: number): T | undefined {
+    return this.list.at(index);
+  }
+
+  peekFirst(): T | undefined {
+    return this.list.peekFirst();
+  }
+
+  peekLast(): T | undefined {
+    return this.list.peekLast();
+  }
+
+  indexOf(element: T): number {
+    return this.list.indexOf(element);
+  }
+
+  lastIndexOf(element: T): number {
+    return this.list.lastIndexOf(element);
+  }
+
+  find(predicate: (element: T, index: number) => boolean): T | undefined {
+    return this.list.find(predicate);
+  }
+
+  findLast(predicate: (element: T, index: number) => boolean): T | undefined {
+    return this.list.findLast(predicate);
+  }
+
+  findIndex(predicate: (element: T, index: number) => boolean): number {
+    return this.list.findIndex(predicate);
+  }
+
+  reduce(callback: (accumulator: T, element: T, index: number) => T): T;
+  reduce<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U;
+  reduce<U>(callback: (accumulator: U, element: T, index: number) => U, ...initial: [U?]): U {
+    return this.list.reduce(callback, ...(initial as [U]));
+  }
+
+  reduceRight(callback: (accumulator: T, element: T, index: number) => T): T;
+  reduceRight<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U;
+  reduceRight<U>(callback: (accumulator: U, element: T, index: number) => U, ...initial: [U?]): U {
+    return this.list.reduceRight(callback, ...(initial as [U]));
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    yield* this.list;
+  }
+
+  forEach(callback: (element: T, index: number) => void): void {
+    this.list.forEach(callback);
+  }
+
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    return this.list.map(callback);
+  }
+
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    return this.list.filter(predicate);
+  }
+
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    return this.list.some(predicate);
+  }
+
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return this.list.every(predicate);
+  }
+}
@@ -0,0 +1,192 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IIterable } from "../interfaces/iterable.interface";
+import { RingBuffer, RingBufferOptions } from "./ring-buffer";
+
+/**
+ * Options for constructing a Deque.
+ */
+export type DequeOptions<T> = RingBufferOptions<T>;
+
+/**
+ * Double-ended queue backed by a circular buffer.
+ *
+ * Adds and removes at both ends in O(1) amortized time and reads any
+ * position in O(1), without the per-element node a DoublyLinkedList needs.
+ * Unbounded by default; with a capacity, 'overwrite' makes room by dropping
+ * the element at the opposite end and 'reject' refuses the new element.
+ *
+ * @example
+ * ```typescript
+ * const history = new Deque<string>({ capacity: 50, overflow: 'overwrite' });
+ * history.addLast(url);
+ * const previous = history.at(-2);
+ * ```
+ */
+export class Deque<T> implements ICollection<T>, IIterable<T> {
+  private ring: RingBuffer<T>;
+
+  constructor(options: DequeOptions<T> = {}) {
+    this.ring = new RingBuffer('Deque', options);
+  }
+
+  /**
+   * Returns the number of elements in the deque.
+   */
+  get size(): number {
+    return this.ring.size;
+  }
+
+  /**
+   * Returns the maximum number of elements, or Infinity for an unbounded deque.
+   */
+  get capacity(): number {
+    return this.ring.capacity;
+  }
+
+  /**
+   * Checks if the deque is empty.
+   */
+  isEmpty(): boolean {
+    return this.ring.size === 0;
+  }
+
+  /**
+   * Checks if a fixed-capacity deque is full. Always false when unbounded.
+   */
+  isFull(): boolean {
+    return this.ring.isFull();
+  }
+
+  /**
+   * Adds an element at the front.
+   * When a fixed-capacity deque is full, 'overwrite' drops the last element
+   * first and 'reject' leaves the deque unchanged.
+   * Time Complexity: O(1) amortized
+   *
+   * @param value - The element to add
+   * @returns false if the element was rejected, true otherwise
+   */
+  addFirst(value: T): boolean {
+    return this.ring.pushFront(value);
+  }
+
+  /**
+   * Adds an element at the back.
+   * When a fixed-capacity deque is full, 'overwrite' drops the first element
+   * first and 'reject' leaves the deque unchanged.
+   * Time Complexity: O(1) amortized
+   *
+   * @param value - The element to add
+   * @returns false if the element was rejected, true otherwise
+   */
+  addLast(value: T): boolean {
+    return this.ring.pushBack(value);
+  }
+
+  /**
+   * Removes and returns the first element.
+   * Time Complexity: O(1) amortized
+   */
+  removeFirst(): T | undefined {
+    return this.ring.popFront();
+  }
+
+  /**
+   * Removes and returns the last element.
+   * Time Complexity: O(1) amortized
+   */
+  removeLast(): T | undefined {
+    return this.ring.popBack();
+  }
+
+  /**
+   * Returns the first element without removing it.
+   * Time Complexity: O(1)
+   */
+  peekFirst(): T | undefined {
+    return this.ring.peekFront();
+  }
+
+  /**
+   * Returns the last element without removing it.
+   * Time Complexity: O(1)
+   */
+  peekLast(): T | undefined {
+    return this.ring.peekBack();
+  }
+
+  /**
+   * Returns the element at a position from the front; negative indices count from the back.
+   * Time Complexity: O(1)
+   *
+   * @param index - Position from the front (0) or back (-1)
+   */
+  at(index: number): T | undefined {
+    return this.ring.at(index);
+  }
+
+  /**
+   * Removes all elements and releases the backing storage.
+   */
+  clear(): void {
+    this.ring.clear();
+  }
+
+  /**
+   * Checks if the deque contains an element, using the configured equality.
+   * Time Complexity: O(n)
+   */
+  contains(element: T): boolean {
+    return this.ring.contains(element);
+  }
+
+  /**
+   * Converts the deque to an array, first to last.
+   */
+  toArray(): T[] {
+    return this.ring.toArray();
+  }
+
+  /**
+   * Iterates first to last without removing elements.
+   * Adding or removing elements while iterating throws a ConcurrentModificationError.
+   */
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.ring[Symbol.iterator]();
+  }
+
+  /**
+   * Executes a function for each element, first to last.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    this.ring.forEach(callback);
+  }
+
+  /**
+   * Maps elements to a new array.
+   */
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    return this.ring.map(callback);
+  }
+
+  /**
+   * Returns the elements that pass the predicate.
+   */
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    return this.ring.filter(predicate);
+  }
+
+  /**
+   * Tests whether any element passes the predicate.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    return this.ring.some(predicate);
+  }
+
+  /**
+   * Tests whether every element passes the predicate.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return this.ring.every(predicate);
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Queue data structures
+ */
+
+export { Queue } from "./queue";
+export type { QueueOptions } from "./queue";
+export { Deque } from "./deque";
+export type { DequeOptions } from "./deque";
+export type { OverflowPolicy } from "./ring-buffer";
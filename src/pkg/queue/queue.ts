@@ -0,0 +1,164 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IIterable } from "../interfaces/iterable.interface";
+import { RingBuffer, RingBufferOptions } from "./ring-buffer";
+
+/**
+ * Options for constructing a Queue.
+ */
+export type QueueOptions<T> = RingBufferOptions<T>;
+
+/**
+ * First-in, first-out queue backed by a circular buffer.
+ *
+ * Unlike a DoublyLinkedList it allocates no node per element, and unlike
+ * Array.shift() dequeuing never moves the remaining elements. Unbounded by
+ * default; with a capacity it becomes a fixed-size buffer that either
+ * overwrites the oldest element or rejects new ones when full.
+ *
+ * @example
+ * ```typescript
+ * const recent = new Queue<LogLine>({ capacity: 100, overflow: 'overwrite' });
+ * recent.enqueue(line); // keeps the last 100 lines
+ * ```
+ */
+export class Queue<T> implements ICollection<T>, IIterable<T> {
+  private ring: RingBuffer<T>;
+
+  constructor(options: QueueOptions<T> = {}) {
+    this.ring = new RingBuffer('Queue', options);
+  }
+
+  /**
+   * Returns the number of elements in the queue.
+   */
+  get size(): number {
+    return this.ring.size;
+  }
+
+  /**
+   * Returns the maximum number of elements, or Infinity for an unbounded queue.
+   */
+  get capacity(): number {
+    return this.ring.capacity;
+  }
+
+  /**
+   * Checks if the queue is empty.
+   */
+  isEmpty(): boolean {
+    return this.ring.size === 0;
+  }
+
+  /**
+   * Checks if a fixed-capacity queue is full. Always false when unbounded.
+   */
+  isFull(): boolean {
+    return this.ring.isFull();
+  }
+
+  /**
+   * Adds an element at the back of the queue.
+   * When a fixed-capacity queue is full, 'overwrite' drops the front element
+   * first and 'reject' leaves the queue unchanged.
+   * Time Complexity: O(1) amortized
+   *
+   * @param value - The element to add
+   * @returns false if the element was rejected, true otherwise
+   */
+  enqueue(value: T): boolean {
+    return this.ring.pushBack(value);
+  }
+
+  /**
+   * Removes and returns the front element.
+   * Time Complexity: O(1) amortized
+   *
+   * @returns The front element, or undefined if the queue is empty
+   */
+  dequeue(): T | undefined {
+    return this.ring.popFront();
+  }
+
+  /**
+   * Returns the front element without removing it.
+   * Time Complexity: O(1)
+   */
+  peek(): T | undefined {
+    return this.ring.peekFront();
+  }
+
+  /**
+   * Returns the element at a position from the front; negative indices count from the back.
+   * Time Complexity: O(1)
+   *
+   * @param index - Position from the front (0) or back (-1)
+   */
+  at(index: number): T | undefined {
+    return this.ring.at(index);
+  }
+
+  /**
+   * Removes all elements and releases the backing storage.
+   */
+  clear(): void {
+    this.ring.clear();
+  }
+
+  /**
+   * Checks if the queue contains an element, using the configured equality.
+   * Time Complexity: O(n)
+   */
+  contains(element: T): boolean {
+    return this.ring.contains(element);
+  }
+
+  /**
+   * Converts the queue to an array, front first.
+   */
+  toArray(): T[] {
+    return this.ring.toArray();
+  }
+
+  /**
+   * Iterates front to back without removing elements.
+   * Adding or removing elements while iterating throws a ConcurrentModificationError.
+   */
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.ring[Symbol.iterator]();
+  }
+
+  /**
+   * Executes a function for each element, front to back.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    this.ring.forEach(callback);
+  }
+
+  /**
+   * Maps elements to a new array.
+   */
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    return this.ring.map(callback);
+  }
+
+  /**
+   * Returns the elements that pass the predicate.
+   */
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    return this.ring.filter(predicate);
+  }
+
+  /**
+   * Tests whether any element passes the predicate.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    return this.ring.some(predicate);
+  }
+
+  /**
+   * Tests whether every element passes the predicate.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return this.ring.every(predicate);
+  }
+}
@@ -0,0 +1,286 @@
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { EqualityFn, defaultEquality } from "../../types";
+
+/**
+ * What a fixed-capacity queue does when an element is added while it is full.
+ * - 'overwrite': drop the element at the opposite end to make room
+ * - 'reject': leave the queue unchanged and report the element as not added
+ */
+export type OverflowPolicy = 'overwrite' | 'reject';
+
+/**
+ * Options shared by Queue and Deque.
+ */
+export interface RingBufferOptions<T> {
+  /**
+   * Maximum number of elements. Omit for an unbounded queue that grows as needed.
+   */
+  capacity?: number;
+
+  /**
+   * Handling of adds while a fixed-capacity queue is full. Defaults to 'reject'.
+   */
+  overflow?: OverflowPolicy;
+
+  /**
+   * Equality used by contains(). Defaults to defaultEquality.
+   */
+  equalityFn?: EqualityFn<T>;
+}
+
+/**
+ * Smallest backing array; the buffer never shrinks below this.
+ */
+const MIN_BUFFER_LENGTH = 16;
+
+/**
+ * Growable circular buffer backing Queue and Deque.
+ *
+ * The backing array length is always a power of two, so wrapping an index
+ * is a bitwise AND instead of a modulo. The array doubles when full and
+ * halves once it drains to a quarter, so memory follows the live size
+ * without resizing back and forth at the boundary.
+ */
+export class RingBuffer<T> {
+  private buffer: (T | undefined)[];
+  private mask: number;
+  private head = 0;
+  private _size = 0;
+  private modCount = 0;
+  private readonly limit: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly equalityFn: EqualityFn<T>;
+
+  /**
+   * @param owner - Class name used in error messages
+   * @param options - Capacity, overflow policy and equality
+   */
+  constructor(private readonly owner: string, options: RingBufferOptions<T>) {
+    const { capacity } = options;
+    if (capacity !== undefined && !(Number.isInteger(capacity) && capacity > 0)) {
+      throw new Error(`${owner} capacity must be a positive integer`);
+    }
+    this.limit = capacity ?? Infinity;
+    this.overflow = options.overflow ?? 'reject';
+    this.equalityFn = options.equalityFn ?? defaultEquality;
+    this.buffer = new Array<T | undefined>(MIN_BUFFER_LENGTH);
+    this.mask = MIN_BUFFER_LENGTH - 1;
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get capacity(): number {
+    return this.limit;
+  }
+
+  isFull(): boolean {
+    return this._size >= this.limit;
+  }
+
+  /**
+   * Adds an element after the last one.
+   * Returns false if the buffer is full and rejects new elements.
+   */
+  pushBack(value: T): boolean {
+    if (this._size >= this.limit) {
+      if (this.overflow === 'reject') return false;
+      this.dropFront();
+    } else if (this._size === this.buffer.length) {
+      this.resize(this.buffer.length * 2);
+    }
+    this.buffer[(this.head + this._size) & this.mask] = value;
+    this._size++;
+    this.modCount++;
+    return true;
+  }
+
+  /**
+   * Adds an element before the first one.
+   * Returns false if the buffer is full and rejects new elements.
+   */
+  pushFront(value: T): boolean {
+    if (this._size >= this.limit) {
+      if (this.overflow === 'reject') return false;
+      this.dropBack();
+    } else if (this._size === this.buffer.length) {
+      this.resize(this.buffer.length * 2);
+    }
+    this.head = (this.head - 1) & this.mask;
+    this.buffer[this.head] = value;
+    this._size++;
+    this.modCount++;
+    return true;
+  }
+
+  popFront(): T | undefined {
+    if (this._size === 0) return undefined;
+    const value = this.dropFront();
+    this.modCount++;
+    this.shrinkIfSparse();
+    return value;
+  }
+
+  popBack(): T | undefined {
+    if (this._size === 0) return undefined;
+    const value = this.dropBack();
+    this.modCount++;
+    this.shrinkIfSparse();
+    return value;
+  }
+
+  peekFront(): T | undefined {
+    return this._size === 0 ? undefined : this.buffer[this.head];
+  }
+
+  peekBack(): T | undefined {
+    return this._size === 0 ? undefined : this.buffer[(this.head + this._size - 1) & this.mask];
+  }
+
+  /**
+   * Returns the element at a position from the front; negative indices count from the back.
+   */
+  at(index: number): T | undefined {
+    const position = index < 0 ? index + this._size : index;
+    if (!Number.isInteger(position) || position < 0 || position >= this._size) {
+      return undefined;
+    }
+    return this.buffer[(this.head + position) & this.mask];
+  }
+
+  clear(): void {
+    this.buffer = new Array<T | undefined>(MIN_BUFFER_LENGTH);
+    this.mask = MIN_BUFFER_LENGTH - 1;
+    this.head = 0;
+    this._size = 0;
+    this.modCount++;
+  }
+
+  contains(element: T): boolean {
+    for (let i = 0; i < this._size; i++) {
+      if (this.equalityFn(this.buffer[(this.head + i) & this.mask] as T, element)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  toArray(): T[] {
+    const result = new Array<T>(this._size);
+    for (let i = 0; i < this._size; i++) {
+      result[i] = this.buffer[(this.head + i) & this.mask] as T;
+    }
+    return result;
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this._size; i++) {
+      yield this.buffer[(this.head + i) & this.mask] as T;
+      this.assertUnmodified(expectedModCount);
+    }
+  }
+
+  forEach(callback: (element: T, index: number) => void): void {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this._size; i++) {
+      callback(this.buffer[(this.head + i) & this.mask] as T, i);
+      this.assertUnmodified(expectedModCount);
+    }
+  }
+
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    const result: U[] = [];
+    this.forEach((element, index) => {
+      result.push(callback(element, index));
+    });
+    return result;
+  }
+
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    const result: T[] = [];
+    this.forEach((element, index) => {
+      if (predicate(element, index)) result.push(element);
+    });
+    return result;
+  }
+
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    const expectedModCount = this.modCount;
+    for (let i = 0; i < this._size; i++) {
+      const matched = predicate(this.buffer[(this.head + i) & this.mask] as T, i);
+      this.assertUnmodified(expectedModCount);
+      if (matched) return true;
+    }
+    return false;
+  }
+
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return !this.some((element, index) => !predicate(element, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Removes the first element without bookkeeping; the caller ensures size > 0.
+   */
+  private dropFront(): T {
+    const value = this.buffer[this.head] as T;
+    // Clear the slot so the buffer does not keep the element alive
+    this.buffer[this.head] = undefined;
+    this.head = (this.head + 1) & this.mask;
+    this._size--;
+    return value;
+  }
+
+  /**
+   * Removes the last element without bookkeeping; the caller ensures size > 0.
+   */
+  private dropBack(): T {
+    const index = (this.head + this._size - 1) & this.mask;
+    const value = this.buffer[index] as T;
+    this.buffer[index] = undefined;
+    this._size--;
+    return value;
+  }
+
+  /**
+   * Halves the backing array once it is at most a quarter full.
+   */
+  private shrinkIfSparse(): void {
+    const length = this.buffer.length;
+    if (length > MIN_BUFFER_LENGTH && this._size <= length >>> 2) {
+      this.resize(length >>> 1);
+    }
+  }
+
+  /**
+   * Changes the backing array length. Elements that do not wrap and fit the
+   * new length stay where they are; otherwise they are copied, in order,
+   * into a new array starting at index 0.
+   */
+  private resize(length: number): void {
+    if (this.head + this._size <= Math.min(length, this.buffer.length)) {
+      this.buffer.length = length;
+      this.mask = length - 1;
+      return;
+    }
+    const next = new Array<T | undefined>(length);
+    for (let i = 0; i < this._size; i++) {
+      next[i] = this.buffer[(this.head + i) & this.mask];
+    }
+    this.buffer = next;
+    this.mask = length - 1;
+    this.head = 0;
+  }
+
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError(`${this.owner} was modified during iteration`);
+    }
+  }
+}
+
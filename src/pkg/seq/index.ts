@@ -0,0 +1,5 @@
+/**
+ * Lazy sequence pipelines
+ */
+
+export { Seq, from } from "./seq";
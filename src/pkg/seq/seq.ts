@@ -0,0 +1,464 @@
+import { ComparatorFn, EqualityFn, HashFn, defaultComparator, defaultEquality } from "../../types"
+import { DoublyLinkedList } from "../list/doubly-linked"
+import { LRUCache, LRUCacheOptions } from "../cache/lru-cache"
+
+/**
+ * Lazy, re-iterable sequence over any iterable source.
+ *
+ * Intermediate operations (map, filter, take, ...) only describe the
+ * pipeline; nothing runs until a terminal operation (toArray, reduce, ...)
+ * or a for...of loop pulls values through it. Each element flows through
+ * the whole chain before the next one is read, so no intermediate arrays
+ * are allocated and take/takeWhile/find/some stop reading the source early.
+ *
+ * A Seq re-reads its source every time it is iterated, so it reflects the
+ * source's current contents. Iterating a DoublyLinkedList or LRUCache this
+ * way is fail-fast: modifying it mid-pipeline throws a
+ * ConcurrentModificationError.
+ *
+ * @example
+ * ```typescript
+ * const firstLargeIds = from(orders)
+ *   .filter(order => order.total > 1000)
+ *   .map(order => order.id)
+ *   .take(10)
+ *   .toArray(); // Stops reading orders after the 10th match
+ * ```
+ */
+export class Seq<T> implements Iterable<T> {
+  private constructor(private readonly source: Iterable<T>) {}
+
+  /**
+   * Creates a sequence over an iterable, such as a DoublyLinkedList,
+   * an LRUCache, an array, a Map or a generator.
+   * Note: a one-shot iterator (e.g. a generator object) can only be consumed once.
+   *
+   * @param source - The iterable to read from
+   */
+  static from<T>(source: Iterable<T>): Seq<T> {
+    return source instanceof Seq ? source : new Seq(source);
+  }
+
+  /**
+   * Creates a sequence of the given values.
+   */
+  static of<T>(...values: T[]): Seq<T> {
+    return new Seq(values);
+  }
+
+  /**
+   * Returns an iterator over the sequence, evaluating the pipeline lazily.
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.source[Symbol.iterator]();
+  }
+
+  // ==========================================================================
+  // Intermediate Operations (lazy)
+  // ==========================================================================
+
+  /**
+   * Transforms each element.
+   */
+  map<U>(callback: (element: T, index: number) => U): Seq<U> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let index = 0;
+      for (const element of source) {
+        yield callback(element, index++);
+      }
+    });
+  }
+
+  /**
+   * Keeps only the elements satisfying the predicate.
+   */
+  filter<S extends T>(predicate: (element: T, index: number) => element is S): Seq<S>;
+  filter(predicate: (element: T, index: number) => boolean): Seq<T>;
+  filter(predicate: (element: T, index: number) => boolean): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let index = 0;
+      for (const element of source) {
+        if (predicate(element, index++)) yield element;
+      }
+    });
+  }
+
+  /**
+   * Maps each element to an iterable and flattens the results one level.
+   */
+  flatMap<U>(callback: (element: T, index: number) => Iterable<U>): Seq<U> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let index = 0;
+      for (const element of source) {
+        yield* callback(element, index++);
+      }
+    });
+  }
+
+  /**
+   * Yields at most the first `count` elements, then stops reading the source.
+   */
+  take(count: number): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      if (count <= 0) return;
+      let taken = 0;
+      for (const element of source) {
+        yield element;
+        if (++taken >= count) return;
+      }
+    });
+  }
+
+  /**
+   * Skips the first `count` elements.
+   */
+  skip(count: number): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let skipped = 0;
+      for (const element of source) {
+        if (skipped < count) {
+          skipped++;
+          continue;
+        }
+        yield element;
+      }
+    });
+  }
+
+  /**
+   * Yields elements while the predicate holds, then stops reading the source.
+   */
+  takeWhile(predicate: (element: T, index: number) => boolean): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let index = 0;
+      for (const element of source) {
+        if (!predicate(element, index++)) return;
+        yield element;
+      }
+    });
+  }
+
+  /**
+   * Groups consecutive elements into arrays of `size`.
+   * The last chunk holds the remainder and may be shorter.
+   *
+   * @throws If size is not a positive integer
+   */
+  chunk(size: number): Seq<T[]> {
+    Seq.assertPositiveInteger('chunk size', size);
+    const source = this.source;
+    return Seq.generate(function* () {
+      let chunk: T[] = [];
+      for (const element of source) {
+        chunk.push(element);
+        if (chunk.length === size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) yield chunk;
+    });
+  }
+
+  /**
+   * Yields sliding windows of exactly `size` consecutive elements, starting
+   * a new window every `step` elements. Incomplete trailing windows are dropped.
+   *
+   * @example
+   * ```typescript
+   * Seq.of(1, 2, 3, 4).window(2).toArray();    // [[1, 2], [2, 3], [3, 4]]
+   * Seq.of(1, 2, 3, 4, 5).window(2, 3).toArray(); // [[1, 2], [4, 5]]
+   * ```
+   *
+   * @throws If size or step is not a positive integer
+   */
+  window(size: number, step = 1): Seq<T[]> {
+    Seq.assertPositiveInteger('window size', size);
+    Seq.assertPositiveInteger('window step', step);
+    const source = this.source;
+    return Seq.generate(function* () {
+      let window: T[] = [];
+      let toSkip = 0;
+      for (const element of source) {
+        if (toSkip > 0) {
+          toSkip--;
+          continue;
+        }
+        window.push(element);
+        if (window.length === size) {
+          yield window.slice();
+          if (step >= size) {
+            toSkip = step - size;
+            window = [];
+          } else {
+            window.splice(0, step);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Pairs elements with those of another iterable, stopping at the shorter one.
+   */
+  zip<U>(other: Iterable<U>): Seq<[T, U]> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      const right = other[Symbol.iterator]();
+      try {
+        for (const element of source) {
+          const paired = right.next();
+          if (paired.done) return;
+          yield [element, paired.value] as [T, U];
+        }
+      } finally {
+        right.return?.();
+      }
+    });
+  }
+
+  /**
+   * Drops elements equal to an earlier element, keeping first occurrences.
+   * Without arguments, elements are compared with SameValueZero (like Set).
+   * With a hash function, elements are bucketed by hash and compared with
+   * the equality function; equal elements must hash the same.
+   *
+   * @param hashFn - Hash consistent with equalityFn
+   * @param equalityFn - Equality used within a hash bucket, defaults to defaultEquality
+   */
+  distinct(hashFn?: HashFn<T>, equalityFn: EqualityFn<T> = defaultEquality): Seq<T> {
+    const source = this.source;
+
+    if (hashFn === undefined) {
+      return Seq.generate(function* () {
+        const seen = new Set<T>();
+        for (const element of source) {
+          if (seen.has(element)) continue;
+          seen.add(element);
+          yield element;
+        }
+      });
+    }
+
+    return Seq.generate(function* () {
+      const buckets = new Map<number, T[]>();
+      for (const element of source) {
+        const hash = hashFn(element);
+        const bucket = buckets.get(hash);
+        if (bucket === undefined) {
+          buckets.set(hash, [element]);
+        } else if (!bucket.some((seen) => equalityFn(seen, element))) {
+          bucket.push(element);
+        } else {
+          continue;
+        }
+        yield element;
+      }
+    });
+  }
+
+  /**
+   * Sorts elements by a key, stably. Sorting needs every element, so the
+   * whole source is buffered when iteration starts.
+   *
+   * @param selector - Extracts the sort key, computed once per element
+   * @param comparator - Orders the keys, defaults to defaultComparator
+   */
+  sortBy<K>(selector: (element: T) => K, comparator: ComparatorFn<K> = defaultComparator): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      const keyed: { key: K; element: T }[] = [];
+      for (const element of source) {
+        keyed.push({ key: selector(element), element });
+      }
+      keyed.sort((a, b) => comparator(a.key, b.key));
+      for (const { element } of keyed) {
+        yield element;
+      }
+    });
+  }
+
+  // ==========================================================================
+  // Terminal Operations
+  // ==========================================================================
+
+  /**
+   * Collects the elements into an array.
+   */
+  toArray(): T[] {
+    return Array.from(this.source);
+  }
+
+  /**
+   * Collects the elements into a new DoublyLinkedList.
+   *
+   * @param equalityFn - Equality for the new list, defaults to defaultEquality
+   */
+  toList(equalityFn: EqualityFn<T> = defaultEquality): DoublyLinkedList<T> {
+    const list = new DoublyLinkedList<T>(equalityFn);
+    for (const element of this.source) {
+      list.addLast(element);
+    }
+    return list;
+  }
+
+  /**
+   * Collects [key, value] entries into a new LRUCache.
+   * Entries are inserted in sequence order, so the last entry ends up most
+   * recently used; when the sequence exceeds the capacity, only the last
+   * `capacity` entries remain.
+   *
+   * @example
+   * ```typescript
+   * const byId = from(users).map(user => [user.id, user] as const).toCache(1000);
+   * ```
+   *
+   * @param capacity - Maximum number of entries
+   * @param options - LRUCache options (TTL, weights, hooks, ...)
+   */
+  toCache<K, V>(
+    this: Seq<readonly [K, V]>,
+    capacity: number,
+    options: LRUCacheOptions<K, V> = {}
+  ): LRUCache<K, V> {
+    const cache = new LRUCache<K, V>(capacity, options);
+    for (const [key, value] of this.source) {
+      cache.put(key, value);
+    }
+    return cache;
+  }
+
+  /**
+   * Groups elements into arrays by key, preserving encounter order.
+   * Keys are compared with SameValueZero (like Map).
+   */
+  groupBy<K>(selector: (element: T, index: number) => K): Map<K, T[]> {
+    const groups = new Map<K, T[]>();
+    let index = 0;
+    for (const element of this.source) {
+      const key = selector(element, index++);
+      const group = groups.get(key);
+      if (group === undefined) {
+        groups.set(key, [element]);
+      } else {
+        group.push(element);
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Reduces the elements to a single value.
+   */
+  reduce<U>(callback: (accumulator: U, element: T, index: number) => U, initialValue: U): U {
+    let accumulator = initialValue;
+    let index = 0;
+    for (const element of this.source) {
+      accumulator = callback(accumulator, element, index++);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Executes a callback for each element.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    let index = 0;
+    for (const element of this.source) {
+      callback(element, index++);
+    }
+  }
+
+  /**
+   * Returns the first element satisfying the predicate, reading no further.
+   */
+  find(predicate: (element: T, index: number) => boolean): T | undefined {
+    let index = 0;
+    for (const element of this.source) {
+      if (predicate(element, index++)) return element;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the first element, or undefined if the sequence is empty.
+   */
+  first(): T | undefined {
+    for (const element of this.source) {
+      return element;
+    }
+    return undefined;
+  }
+
+  /**
+   * Counts the elements.
+   */
+  count(): number {
+    let count = 0;
+    for (const _element of this.source) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Tests if at least one element satisfies the predicate, stopping at the first.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  /**
+   * Tests if all elements satisfy the predicate, stopping at the first failure.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return this.findIndex((element, index) => !predicate(element, index)) === -1;
+  }
+
+  // ==========================================================================
+  // Private Helper Methods
+  // ==========================================================================
+
+  /**
+   * Returns the index of the first element satisfying the predicate, or -1.
+   */
+  private findIndex(predicate: (element: T, index: number) => boolean): number {
+    let index = 0;
+    for (const element of this.source) {
+      if (predicate(element, index)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  /**
+   * Wraps a generator function as a re-iterable sequence.
+   */
+  private static generate<U>(generator: () => Iterator<U>): Seq<U> {
+    return new Seq<U>({ [Symbol.iterator]: generator });
+  }
+
+  /**
+   * Throws unless the value is a positive integer.
+   */
+  private static assertPositiveInteger(name: string, value: number): void {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`Seq ${name} must be a positive integer`);
+    }
+  }
+}
+
+/**
+ * Creates a lazy sequence over an iterable. Shorthand for Seq.from.
+ *
+ * @param source - The iterable to read from
+ */
+export function from<T>(source: Iterable<T>): Seq<T> {
+  return Seq.from(source);
+}
@@ -0,0 +1,11 @@
+/**
+ * Bridges between collections and node:stream
+ */
+
+export { toReadable, toWritable, toTransform } from "./node-stream";
+export type {
+  CollectionReadableOptions,
+  CollectionWritableOptions,
+  CollectionTransformOptions,
+  StreamTarget,
+} from "./node-stream";
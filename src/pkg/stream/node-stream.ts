@@ -0,0 +1,162 @@
+import { Readable, ReadableOptions, Transform, TransformOptions, Writable, WritableOptions } from "node:stream"
+import { DoublyLinkedList } from "../list/doubly-linked"
+import { LRUCache } from "../cache/lru-cache"
+
+/**
+ * Options for toReadable. Object mode is always on.
+ */
+export type CollectionReadableOptions = Omit<ReadableOptions, 'objectMode' | 'read' | 'destroy'>;
+
+/**
+ * Options for toWritable. Object mode is always on.
+ */
+export type CollectionWritableOptions = Omit<WritableOptions, 'objectMode' | 'write' | 'writev' | 'final'>;
+
+/**
+ * Options for toTransform. Object mode is always on.
+ */
+export type CollectionTransformOptions = Omit<TransformOptions, 'objectMode' | 'transform' | 'flush'>;
+
+/**
+ * A collection a Writable or Transform can fill: a list receives every
+ * chunk, a cache receives [key, value] entries.
+ */
+export type StreamTarget<T> = DoublyLinkedList<T> | LRUCache<unknown, unknown>;
+
+/**
+ * Streams a collection (or any iterable) as an object-mode Readable.
+ *
+ * Elements are pulled from the iterator only when the stream asks for more,
+ * so a slow consumer stops iteration at the highWaterMark instead of
+ * buffering the whole collection. Because iteration is lazy, modifying a
+ * DoublyLinkedList or LRUCache while it is streaming destroys the stream
+ * with a ConcurrentModificationError.
+ *
+ * @example
+ * ```typescript
+ * await pipeline(toReadable(cache.entries()), serializer, socket);
+ * ```
+ *
+ * @param source - The collection or iterable to stream
+ * @param options - Readable options such as highWaterMark or signal
+ */
+export function toReadable<T>(source: Iterable<T>, options: CollectionReadableOptions = {}): Readable {
+  let iterator: Iterator<T> | null = null;
+
+  return new Readable({
+    ...options,
+    objectMode: true,
+    read() {
+      try {
+        iterator ??= source[Symbol.iterator]();
+        for (;;) {
+          const result = iterator.next();
+          if (result.done) {
+            this.push(null);
+            return;
+          }
+          if (result.value === null) {
+            // null ends a Readable, so it cannot be sent as data
+            throw new Error('toReadable cannot stream null elements');
+          }
+          // Stop pulling once the internal buffer is full; read() is called again on drain
+          if (!this.push(result.value)) return;
+        }
+      } catch (error) {
+        this.destroy(error as Error);
+      }
+    },
+    destroy(error, callback) {
+      iterator?.return?.();
+      callback(error);
+    },
+  });
+}
+
+/**
+ * Creates an object-mode Writable that fills a collection.
+ * A DoublyLinkedList appends every chunk; an LRUCache expects
+ * [key, value] chunks and puts them in arrival order.
+ *
+ * @example
+ * ```typescript
+ * const list = new DoublyLinkedList<Row>();
+ * await pipeline(rowStream, toWritable(list));
+ * ```
+ *
+ * @param target - The list or cache to fill
+ * @param options - Writable options such as highWaterMark
+ */
+export function toWritable<T>(target: DoublyLinkedList<T>, options?: CollectionWritableOptions): Writable;
+export function toWritable<K, V>(target: LRUCache<K, V>, options?: CollectionWritableOptions): Writable;
+export function toWritable<T>(target: StreamTarget<T>, options: CollectionWritableOptions = {}): Writable {
+  const store = storeInto(target);
+
+  return new Writable({
+    ...options,
+    objectMode: true,
+    write(chunk, _encoding, callback) {
+      try {
+        store(chunk);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+/**
+ * Creates an object-mode Transform that fills a collection like toWritable
+ * and passes every chunk through unchanged, so it can sit in the middle of
+ * a pipeline.
+ *
+ * @example
+ * ```typescript
+ * const recent = new LRUCache<string, User>(1000);
+ * await pipeline(userEntries, toTransform(recent), auditLog);
+ * ```
+ *
+ * @param target - The list or cache to fill
+ * @param options - Transform options such as highWaterMark
+ */
+export function toTransform<T>(target: DoublyLinkedList<T>, options?: CollectionTransformOptions): Transform;
+export function toTransform<K, V>(target: LRUCache<K, V>, options?: CollectionTransformOptions): Transform;
+export function toTransform<T>(target: StreamTarget<T>, options: CollectionTransformOptions = {}): Transform {
+  const store = storeInto(target);
+
+  return new Transform({
+    ...options,
+    objectMode: true,
+    transform(chunk, _encoding, callback) {
+      try {
+        store(chunk);
+        callback(null, chunk);
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Returns a function that stores one stream chunk into the target.
+ */
+function storeInto<T>(target: StreamTarget<T>): (chunk: unknown) => void {
+  if (target instanceof LRUCache) {
+    return (chunk) => {
+      if (!Array.isArray(chunk) || chunk.length !== 2) {
+        throw new Error('LRUCache stream chunks must be [key, value] entries');
+      }
+      target.put(chunk[0], chunk[1]);
+    };
+  }
+
+  return (chunk) => {
+    target.addLast(chunk as T);
+  };
+}
@@ -0,0 +1,906 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IKeyedIterable } from "../interfaces/iterable.interface";
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { ComparatorFn, defaultComparator } from "../../types";
+
+/**
+ * Options for constructing a BPlusTree.
+ */
+export interface BPlusTreeOptions<K> {
+  /**
+   * Maximum children per internal node; nodes hold up to order - 1 keys.
+   * Larger orders mean shallower trees and fewer objects. Defaults to 64, minimum 3.
+   */
+  order?: number;
+
+  /**
+   * Key ordering. Defaults to defaultComparator.
+   */
+  comparator?: ComparatorFn<K>;
+}
+
+/**
+ * Shape and occupancy of a BPlusTree, as returned by stats().
+ */
+export interface BPlusTreeStats {
+  /** Number of entries. */
+  size: number;
+  /** Configured order. */
+  order: number;
+  /** Levels from the root to the leaves; 1 when the root is a leaf. */
+  height: number;
+  /** Total nodes, internal and leaf. */
+  nodeCount: number;
+  /** Internal (index) nodes. */
+  internalNodeCount: number;
+  /** Leaf nodes, which hold the entries. */
+  leafNodeCount: number;
+  /** Average leaf occupancy: entries divided by leaf capacity, between 0 and 1. */
+  fillFactor: number;
+}
+
+/**
+ * Leaf node: sorted keys with their values, linked to its neighbours for range scans.
+ */
+class LeafNode<K, V> {
+  keys: K[] = [];
+  values: V[] = [];
+  prev: LeafNode<K, V> | null = null;
+  next: LeafNode<K, V> | null = null;
+}
+
+/**
+ * Internal node: children[i] holds the keys k with keys[i - 1] <= k < keys[i].
+ */
+class InternalNode<K, V> {
+  keys: K[] = [];
+  children: BPlusNode<K, V>[] = [];
+}
+
+type BPlusNode<K, V> = LeafNode<K, V> | InternalNode<K, V>;
+
+/**
+ * Result of splitting an overfull node: the new right sibling and the
+ * lowest key it covers, which becomes the separator in the parent.
+ */
+interface Split<K, V> {
+  separator: K;
+  right: BPlusNode<K, V>;
+}
+
+/**
+ * B+ tree for large in-memory ordered indexes.
+ *
+ * Each node stores up to order - 1 keys in a contiguous array, so a lookup
+ * touches log_order(n) nodes instead of the log_2(n) a binary tree needs,
+ * and there are far fewer objects for the garbage collector to trace.
+ * Entries live only in the leaves, which are linked in both directions,
+ * so range scans walk arrays leaf by leaf without going back up the tree.
+ *
+ * Performance Characteristics:
+ * - get/set/delete/has: O(log n)
+ * - range(from, to): O(log n + k) for k entries, produced lazily
+ * - deleteRange(from, to): O(log n + k / order) for k removed entries
+ * - bulkLoad(sorted entries): O(n)
+ *
+ * Iterators are fail-fast: inserting or deleting keys while iterating
+ * throws a ConcurrentModificationError.
+ *
+ * @example
+ * ```typescript
+ * const index = BPlusTree.bulkLoad(sortedRows.map((row) => [row.id, row]), { order: 128 });
+ * for (const [id, row] of index.range(1000, 2000)) { ... }
+ * index.deleteRange(0, 1000);
+ * ```
+ */
+export class BPlusTree<K, V> implements ICollection<V>, IKeyedIterable<K, V> {
+  private root: BPlusNode<K, V> = new LeafNode<K, V>();
+  private head: LeafNode<K, V>;
+  private tail: LeafNode<K, V>;
+  private _size = 0;
+  private height = 1;
+  private modCount = 0;
+  private readonly order: number;
+  private readonly maxKeys: number;
+  private readonly minLeafKeys: number;
+  private readonly minChildren: number;
+  private readonly comparator: ComparatorFn<K>;
+
+  constructor(options: BPlusTreeOptions<K> = {}) {
+    const order = options.order ?? 64;
+    if (!(Number.isInteger(order) && order >= 3)) {
+      throw new Error('BPlusTree order must be an integer of at least 3');
+    }
+    this.order = order;
+    this.maxKeys = order - 1;
+    this.minLeafKeys = Math.floor(order / 2);
+    this.minChildren = Math.ceil(order / 2);
+    this.comparator = options.comparator ?? defaultComparator;
+    this.head = this.tail = this.root as LeafNode<K, V>;
+  }
+
+  /**
+   * Builds a tree from entries already sorted by key, bottom-up.
+   * Leaves are packed full, so the tree is as shallow and compact as
+   * possible; much faster than inserting the entries one by one.
+   * Time Complexity: O(n)
+   *
+   * @param entries - [key, value] entries in strictly ascending key order
+   * @param options - Order and comparator
+   * @throws If the keys are not strictly ascending
+   */
+  static bulkLoad<K, V>(entries: Iterable<readonly [K, V]>, options: BPlusTreeOptions<K> = {}): BPlusTree<K, V> {
+    const tree = new BPlusTree<K, V>(options);
+    const keys: K[] = [];
+    const values: V[] = [];
+    for (const [key, value] of entries) {
+      if (keys.length > 0 && tree.comparator(keys[keys.length - 1]!, key) >= 0) {
+        throw new Error('BPlusTree bulkLoad input must be sorted in ascending key order without duplicates');
+      }
+      keys.push(key);
+      values.push(value);
+    }
+    if (keys.length === 0) return tree;
+
+    // Leaf level
+    const leafSizes = tree.groupSizes(keys.length, tree.maxKeys, tree.minLeafKeys);
+    let level: BPlusNode<K, V>[] = [];
+    let lowestKeys: K[] = [];
+    let offset = 0;
+    let previous: LeafNode<K, V> | null = null;
+    for (const count of leafSizes) {
+      const leaf = new LeafNode<K, V>();
+      leaf.keys = keys.slice(offset, offset + count);
+      leaf.values = values.slice(offset, offset + count);
+      leaf.prev = previous;
+      if (previous !== null) previous.next = leaf;
+      previous = leaf;
+      level.push(leaf);
+      lowestKeys.push(keys[offset]!);
+      offset += count;
+    }
+    tree.head = level[0] as LeafNode<K, V>;
+    tree.tail = previous!;
+
+    // Internal levels, until a single root remains
+    let height = 1;
+    while (level.length > 1) {
+      const groupSizes = tree.groupSizes(level.length, tree.order, tree.minChildren);
+      const parents: BPlusNode<K, V>[] = [];
+      const parentLowestKeys: K[] = [];
+      offset = 0;
+      for (const count of groupSizes) {
+        const node = new InternalNode<K, V>();
+        node.children = level.slice(offset, offset + count);
+        node.keys = lowestKeys.slice(offset + 1, offset + count);
+        parents.push(node);
+        parentLowestKeys.push(lowestKeys[offset]!);
+        offset += count;
+      }
+      level = parents;
+      lowestKeys = parentLowestKeys;
+      height++;
+    }
+
+    tree.root = level[0]!;
+    tree.height = height;
+    tree._size = keys.length;
+    return tree;
+  }
+
+  /**
+   * Returns the number of entries in the tree.
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Checks if the tree is empty.
+   */
+  isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  /**
+   * Returns the value stored for a key.
+   * Time Complexity: O(log n)
+   */
+  get(key: K): V | undefined {
+    const leaf = this.findLeaf(key);
+    const index = this.lowerBound(leaf.keys, key);
+    if (index < leaf.keys.length && this.comparator(leaf.keys[index]!, key) === 0) {
+      return leaf.values[index];
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks if a key exists.
+   * Time Complexity: O(log n)
+   */
+  has(key: K): boolean {
+    const leaf = this.findLeaf(key);
+    const index = this.lowerBound(leaf.keys, key);
+    return index < leaf.keys.length && this.comparator(leaf.keys[index]!, key) === 0;
+  }
+
+  /**
+   * Stores a value for a key, splitting full nodes on the way back up.
+   * Time Complexity: O(log n)
+   */
+  set(key: K, value: V): this {
+    const split = this.insertInto(this.root, key, value);
+    if (split !== null) {
+      const root = new InternalNode<K, V>();
+      root.keys = [split.separator];
+      root.children = [this.root, split.right];
+      this.root = root;
+      this.height++;
+    }
+    return this;
+  }
+
+  /**
+   * Removes a key, borrowing from or merging with siblings when a node underflows.
+   * Time Complexity: O(log n)
+   *
+   * @returns true if the key was present
+   */
+  delete(key: K): boolean {
+    if (!this.deleteFrom(this.root, key)) return false;
+    this.collapseRoot();
+    return true;
+  }
+
+  /**
+   * Removes every key from fromKey to toKey.
+   * Subtrees that lie wholly inside the range are cut out without visiting
+   * their entries, and only the two boundary paths are rebalanced.
+   * Time Complexity: O(log n + k / order) for k removed keys
+   *
+   * @param fromKey - Low end of the range
+   * @param toKey - High end of the range
+   * @param fromInclusive - Whether fromKey itself is removed (default true)
+   * @param toInclusive - Whether toKey itself is removed (default false)
+   * @returns The number of entries removed
+   */
+  deleteRange(fromKey: K, toKey: K, fromInclusive = true, toInclusive = false): number {
+    const cmp = this.comparator(fromKey, toKey);
+    if (cmp > 0 || (cmp === 0 && !(fromInclusive && toInclusive))) return 0;
+
+    // Walk down while both ends fall in the same child
+    let node = this.root;
+    while (node instanceof InternalNode) {
+      const low = this.upperBound(node.keys, fromKey);
+      const high = this.upperBound(node.keys, toKey);
+      if (low !== high) break;
+      node = node.children[low]!;
+    }
+
+    let removed: number;
+    if (node instanceof LeafNode) {
+      const start = fromInclusive ? this.lowerBound(node.keys, fromKey) : this.upperBound(node.keys, fromKey);
+      const end = toInclusive ? this.upperBound(node.keys, toKey) : this.lowerBound(node.keys, toKey);
+      if (start >= end) return 0;
+      node.keys.splice(start, end - start);
+      node.values.splice(start, end - start);
+      removed = end - start;
+    } else {
+      removed = this.cutRange(node, fromKey, toKey, fromInclusive, toInclusive);
+      if (removed === 0) return 0;
+    }
+
+    this._size -= removed;
+    this.modCount++;
+
+    // Only nodes on the two boundary paths can be underfull now
+    let changed = true;
+    while (changed) {
+      changed = this.repairPath(fromKey);
+      changed = this.repairPath(toKey) || changed;
+    }
+    this.collapseRoot();
+    return removed;
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    const leaf = new LeafNode<K, V>();
+    this.root = this.head = this.tail = leaf;
+    this._size = 0;
+    this.height = 1;
+    this.modCount++;
+  }
+
+  /**
+   * Checks if any entry holds a value (compared with ===).
+   * Time Complexity: O(n)
+   */
+  contains(value: V): boolean {
+    for (let leaf: LeafNode<K, V> | null = this.head; leaf !== null; leaf = leaf.next) {
+      if (leaf.values.includes(value)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns all values in key order.
+   */
+  toArray(): V[] {
+    const result: V[] = [];
+    for (let leaf: LeafNode<K, V> | null = this.head; leaf !== null; leaf = leaf.next) {
+      result.push(...leaf.values);
+    }
+    return result;
+  }
+
+  /**
+   * Returns the entry with the lowest key.
+   * Time Complexity: O(1)
+   */
+  first(): [K, V] | undefined {
+    if (this._size === 0) return undefined;
+    return [this.head.keys[0]!, this.head.values[0]!];
+  }
+
+  /**
+   * Returns the entry with the highest key.
+   * Time Complexity: O(1)
+   */
+  last(): [K, V] | undefined {
+    if (this._size === 0) return undefined;
+    const last = this.tail.keys.length - 1;
+    return [this.tail.keys[last]!, this.tail.values[last]!];
+  }
+
+  /**
+   * Iterates [key, value] entries from fromKey to toKey in ascending order,
+   * following the leaf links.
+   * Time Complexity: O(log n) to start, then O(1) per entry
+   *
+   * @param fromKey - Low end of the range
+   * @param toKey - High end of the range
+   * @param fromInclusive - Whether fromKey itself is included (default true)
+   * @param toInclusive - Whether toKey itself is included (default false)
+   */
+  range(fromKey: K, toKey: K, fromInclusive = true, toInclusive = false): IterableIterator<[K, V]> {
+    const leaf = this.findLeaf(fromKey);
+    const index = fromInclusive ? this.lowerBound(leaf.keys, fromKey) : this.upperBound(leaf.keys, fromKey);
+    return this.scan(leaf, index, { key: toKey, inclusive: toInclusive }, (keys, values, i) => [keys[i]!, values[i]!]);
+  }
+
+  /**
+   * Iterates values in ascending key order.
+   */
+  [Symbol.iterator](): IterableIterator<V> {
+    return this.values();
+  }
+
+  /**
+   * Iterates [key, value] entries in ascending key order.
+   */
+  entries(): IterableIterator<[K, V]> {
+    return this.scan(this.head, 0, null, (keys, values, i) => [keys[i]!, values[i]!]);
+  }
+
+  /**
+   * Iterates keys in ascending order.
+   */
+  keys(): IterableIterator<K> {
+    return this.scan(this.head, 0, null, (keys, _values, i) => keys[i]!);
+  }
+
+  /**
+   * Iterates values in ascending key order.
+   */
+  values(): IterableIterator<V> {
+    return this.scan(this.head, 0, null, (_keys, values, i) => values[i]!);
+  }
+
+  /**
+   * Iterates [key, value] entries in descending key order.
+   */
+  *entriesReverse(): IterableIterator<[K, V]> {
+    const expectedModCount = this.modCount;
+    for (let leaf: LeafNode<K, V> | null = this.tail; leaf !== null; leaf = leaf.prev) {
+      for (let i = leaf.keys.length - 1; i >= 0; i--) {
+        yield [leaf.keys[i]!, leaf.values[i]!];
+        this.assertUnmodified(expectedModCount);
+      }
+    }
+  }
+
+  /**
+   * Executes a function for each entry, in ascending key order.
+   * The callback receives (value, key, index), in Map.prototype.forEach order.
+   */
+  forEach(callback: (value: V, key: K, index: number) => void): void {
+    let index = 0;
+    for (const [key, value] of this.entries()) {
+      callback(value, key, index);
+      index++;
+    }
+  }
+
+  /**
+   * Maps entries, in ascending key order, to a new array.
+   */
+  map<U>(callback: (value: V, key: K, index: number) => U): U[] {
+    const result: U[] = [];
+    this.forEach((value, key, index) => {
+      result.push(callback(value, key, index));
+    });
+    return result;
+  }
+
+  /**
+   * Returns the values whose entries pass the predicate.
+   */
+  filter(predicate: (value: V, key: K, index: number) => boolean): V[] {
+    const result: V[] = [];
+    this.forEach((value, key, index) => {
+      if (predicate(value, key, index)) result.push(value);
+    });
+    return result;
+  }
+
+  /**
+   * Tests whether any entry passes the predicate.
+   */
+  some(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    let index = 0;
+    for (const [key, value] of this.entries()) {
+      if (predicate(value, key, index)) return true;
+      index++;
+    }
+    return false;
+  }
+
+  /**
+   * Tests whether every entry passes the predicate.
+   */
+  every(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    return !this.some((value, key, index) => !predicate(value, key, index));
+  }
+
+  /**
+   * Reports the tree's shape and occupancy.
+   * Time Complexity: O(number of nodes)
+   */
+  stats(): BPlusTreeStats {
+    let internalNodeCount = 0;
+    let level: BPlusNode<K, V>[] = [this.root];
+    while (level[0] instanceof InternalNode) {
+      internalNodeCount += level.length;
+      level = (level as InternalNode<K, V>[]).flatMap((node) => node.children);
+    }
+    const leafNodeCount = level.length;
+
+    return {
+      size: this._size,
+      order: this.order,
+      height: this.height,
+      nodeCount: internalNodeCount + leafNodeCount,
+      internalNodeCount,
+      leafNodeCount,
+      fillFactor: this._size / (leafNodeCount * this.maxKeys),
+    };
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Returns the first index whose key is greater than or equal to key.
+   */
+  private lowerBound(keys: K[], key: K): number {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.comparator(keys[mid]!, key) < 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Returns the first index whose key is greater than key.
+   */
+  private upperBound(keys: K[], key: K): number {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.comparator(keys[mid]!, key) <= 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Returns the leaf whose key range covers key.
+   */
+  private findLeaf(key: K): LeafNode<K, V> {
+    let node = this.root;
+    while (node instanceof InternalNode) {
+      node = node.children[this.upperBound(node.keys, key)]!;
+    }
+    return node;
+  }
+
+  /**
+   * Inserts into a subtree.
+   * @returns The split-off right sibling if the node overflowed, otherwise null
+   */
+  private insertInto(node: BPlusNode<K, V>, key: K, value: V): Split<K, V> | null {
+    if (node instanceof LeafNode) {
+      const index = this.lowerBound(node.keys, key);
+      if (index < node.keys.length && this.comparator(node.keys[index]!, key) === 0) {
+        node.values[index] = value;
+        return null;
+      }
+      node.keys.splice(index, 0, key);
+      node.values.splice(index, 0, value);
+      this._size++;
+      this.modCount++;
+      return node.keys.length > this.maxKeys ? this.splitLeaf(node) : null;
+    }
+
+    const childIndex = this.upperBound(node.keys, key);
+    const split = this.insertInto(node.children[childIndex]!, key, value);
+    if (split === null) return null;
+
+    node.keys.splice(childIndex, 0, split.separator);
+    node.children.splice(childIndex + 1, 0, split.right);
+    return node.children.length > this.order ? this.splitInternal(node) : null;
+  }
+
+  private splitLeaf(leaf: LeafNode<K, V>): Split<K, V> {
+    const mid = Math.ceil(leaf.keys.length / 2);
+    const right = new LeafNode<K, V>();
+    right.keys = leaf.keys.splice(mid);
+    right.values = leaf.values.splice(mid);
+
+    right.next = leaf.next;
+    right.prev = leaf;
+    if (leaf.next !== null) leaf.next.prev = right;
+    else this.tail = right;
+    leaf.next = right;
+
+    return { separator: right.keys[0]!, right };
+  }
+
+  private splitInternal(node: InternalNode<K, V>): Split<K, V> {
+    const mid = node.keys.length >>> 1;
+    const right = new InternalNode<K, V>();
+    const separator = node.keys[mid]!;
+    right.keys = node.keys.splice(mid + 1);
+    right.children = node.children.splice(mid + 1);
+    node.keys.length = mid;
+    return { separator, right };
+  }
+
+  /**
+   * Deletes from a subtree, rebalancing any child left below minimum occupancy.
+   * @returns true if the key was present
+   */
+  private deleteFrom(node: BPlusNode<K, V>, key: K): boolean {
+    if (node instanceof LeafNode) {
+      const index = this.lowerBound(node.keys, key);
+      if (index >= node.keys.length || this.comparator(node.keys[index]!, key) !== 0) {
+        return false;
+      }
+      node.keys.splice(index, 1);
+      node.values.splice(index, 1);
+      this._size--;
+      this.modCount++;
+      return true;
+    }
+
+    const childIndex = this.upperBound(node.keys, key);
+    const child = node.children[childIndex]!;
+    if (!this.deleteFrom(child, key)) return false;
+
+    if (child instanceof LeafNode ? child.keys.length < this.minLeafKeys : child.children.length < this.minChildren) {
+      this.rebalance(node, childIndex);
+    }
+    return true;
+  }
+
+  /**
+   * Fixes an underfull child by borrowing from a sibling that can spare an
+   * entry, or else merging it with a sibling.
+   */
+  private rebalance(parent: InternalNode<K, V>, index: number): void {
+    const child = parent.children[index]!;
+    const left = index > 0 ? parent.children[index - 1]! : null;
+    const right = index + 1 < parent.children.length ? parent.children[index + 1]! : null;
+
+    if (child instanceof LeafNode) {
+      const leftLeaf = left as LeafNode<K, V> | null;
+      const rightLeaf = right as LeafNode<K, V> | null;
+      if (leftLeaf !== null && leftLeaf.keys.length > this.minLeafKeys) {
+        child.keys.unshift(leftLeaf.keys.pop()!);
+        child.values.unshift(leftLeaf.values.pop()!);
+        parent.keys[index - 1] = child.keys[0]!;
+      } else if (rightLeaf !== null && rightLeaf.keys.length > this.minLeafKeys) {
+        child.keys.push(rightLeaf.keys.shift()!);
+        child.values.push(rightLeaf.values.shift()!);
+        parent.keys[index] = rightLeaf.keys[0]!;
+      } else if (leftLeaf !== null) {
+        this.mergeLeaves(parent, index - 1);
+      } else {
+        this.mergeLeaves(parent, index);
+      }
+      return;
+    }
+
+    const leftNode = left as InternalNode<K, V> | null;
+    const rightNode = right as InternalNode<K, V> | null;
+    if (leftNode !== null && leftNode.children.length > this.minChildren) {
+      // Rotate through the parent: its separator comes down, the sibling's last key goes up
+      child.keys.unshift(parent.keys[index - 1]!);
+      child.children.unshift(leftNode.children.pop()!);
+      parent.keys[index - 1] = leftNode.keys.pop()!;
+    } else if (rightNode !== null && rightNode.children.length > this.minChildren) {
+      child.keys.push(parent.keys[index]!);
+      child.children.push(rightNode.children.shift()!);
+      parent.keys[index] = rightNode.keys.shift()!;
+    } else if (leftNode !== null) {
+      this.mergeInternal(parent, index - 1);
+    } else {
+      this.mergeInternal(parent, index);
+    }
+  }
+
+  /**
+   * Merges the leaf at index + 1 into the leaf at index and unlinks it.
+   */
+  private mergeLeaves(parent: InternalNode<K, V>, index: number): void {
+    const left = parent.children[index] as LeafNode<K, V>;
+    const right = parent.children[index + 1] as LeafNode<K, V>;
+    left.keys.push(...right.keys);
+    left.values.push(...right.values);
+
+    left.next = right.next;
+    if (right.next !== null) right.next.prev = left;
+    else this.tail = left;
+
+    parent.keys.splice(index, 1);
+    parent.children.splice(index + 1, 1);
+  }
+
+  /**
+   * Merges the internal node at index + 1 into the one at index,
+   * pulling their separator down from the parent.
+   */
+  private mergeInternal(parent: InternalNode<K, V>, index: number): void {
+    const left = parent.children[index] as InternalNode<K, V>;
+    const right = parent.children[index + 1] as InternalNode<K, V>;
+    left.keys.push(parent.keys[index]!, ...right.keys);
+    left.children.push(...right.children);
+
+    parent.keys.splice(index, 1);
+    parent.children.splice(index + 1, 1);
+  }
+
+  /**
+   * Removes a range whose ends fall in different children of node.
+   * Children strictly between the ends are dropped whole, then the left path
+   * is trimmed of everything after fromKey and the right path of everything
+   * before toKey. The boundary leaves are linked to each other, skipping the
+   * dropped ones.
+   * @returns The number of entries removed
+   */
+  private cutRange(node: InternalNode<K, V>, fromKey: K, toKey: K, fromInclusive: boolean, toInclusive: boolean): number {
+    const low = this.upperBound(node.keys, fromKey);
+    const high = this.upperBound(node.keys, toKey);
+    let left = node.children[low]!;
+    let right = node.children[high]!;
+
+    // keys[high - 1] stays as the separator between the two remaining children
+    node.children.splice(low + 1, high - low - 1);
+    node.keys.splice(low, high - low - 1);
+
+    while (left instanceof InternalNode) {
+      const index = this.upperBound(left.keys, fromKey);
+      left.children.length = index + 1;
+      left.keys.length = index;
+      left = left.children[index]!;
+    }
+    while (right instanceof InternalNode) {
+      const index = this.upperBound(right.keys, toKey);
+      right.children.splice(0, index);
+      right.keys.splice(0, index);
+      right = right.children[0]!;
+    }
+
+    const leftLeaf = left as LeafNode<K, V>;
+    const rightLeaf = right as LeafNode<K, V>;
+    let removed = 0;
+    for (let leaf = leftLeaf.next; leaf !== null && leaf !== rightLeaf; leaf = leaf.next) {
+      removed += leaf.keys.length;
+    }
+    leftLeaf.next = rightLeaf;
+    rightLeaf.prev = leftLeaf;
+
+    const start = fromInclusive ? this.lowerBound(leftLeaf.keys, fromKey) : this.upperBound(leftLeaf.keys, fromKey);
+    removed += leftLeaf.keys.length - start;
+    leftLeaf.keys.length = start;
+    leftLeaf.values.length = start;
+
+    const end = toInclusive ? this.upperBound(rightLeaf.keys, toKey) : this.lowerBound(rightLeaf.keys, toKey);
+    removed += end;
+    rightLeaf.keys.splice(0, end);
+    rightLeaf.values.splice(0, end);
+
+    return removed;
+  }
+
+  /**
+   * Walks from the root towards key and fixes the first underfull node on the
+   * way, repeating until the whole path is at minimum occupancy.
+   * @returns true if anything was changed
+   */
+  private repairPath(key: K): boolean {
+    let changed = false;
+    for (;;) {
+      this.collapseRoot();
+      let node = this.root;
+      let fixed = false;
+      while (node instanceof InternalNode) {
+        const index = this.upperBound(node.keys, key);
+        const child = node.children[index]!;
+        const underfull = child instanceof LeafNode
+          ? child.keys.length < this.minLeafKeys
+          : child.children.length < this.minChildren;
+        if (underfull) {
+          this.mergeOrRedistribute(node, index);
+          fixed = true;
+          break;
+        }
+        node = child;
+      }
+      if (!fixed) return changed;
+      changed = true;
+    }
+  }
+
+  /**
+   * Fixes a child that may be any amount below minimum occupancy: merges it
+   * with a sibling if the two fit in one node, otherwise splits their
+   * contents evenly between them.
+   */
+  private mergeOrRedistribute(parent: InternalNode<K, V>, index: number): void {
+    const at = index > 0 ? index - 1 : index;
+    const left = parent.children[at]!;
+    const right = parent.children[at + 1]!;
+
+    if (left instanceof LeafNode) {
+      const rightLeaf = right as LeafNode<K, V>;
+      const total = left.keys.length + rightLeaf.keys.length;
+      if (total <= this.maxKeys) {
+        this.mergeLeaves(parent, at);
+        return;
+      }
+      const keys = left.keys.concat(rightLeaf.keys);
+      const values = left.values.concat(rightLeaf.values);
+      const half = Math.ceil(total / 2);
+      left.keys = keys.slice(0, half);
+      left.values = values.slice(0, half);
+      rightLeaf.keys = keys.slice(half);
+      rightLeaf.values = values.slice(half);
+      parent.keys[at] = rightLeaf.keys[0]!;
+      return;
+    }
+
+    const rightNode = right as InternalNode<K, V>;
+    const total = left.children.length + rightNode.children.length;
+    if (total <= this.order) {
+      this.mergeInternal(parent, at);
+      return;
+    }
+    // The parent's separator joins the pool, and a new one goes back up
+    const keys = [...left.keys, parent.keys[at]!, ...rightNode.keys];
+    const children = left.children.concat(rightNode.children);
+    const half = Math.ceil(total / 2);
+    left.children = children.slice(0, half);
+    left.keys = keys.slice(0, half - 1);
+    parent.keys[at] = keys[half - 1]!;
+    rightNode.children = children.slice(half);
+    rightNode.keys = keys.slice(half);
+  }
+
+  /**
+   * Replaces an internal root left with a single child by that child.
+   */
+  private collapseRoot(): void {
+    while (this.root instanceof InternalNode && this.root.children.length === 1) {
+      this.root = this.root.children[0]!;
+      this.height--;
+    }
+  }
+
+  /**
+   * Splits count items into groups of at most max, where every group
+   * holds at least min (unless there is only one group).
+   */
+  private groupSizes(count: number, max: number, min: number): number[] {
+    const sizes: number[] = [];
+    for (let remaining = count; remaining > 0; remaining -= max) {
+      sizes.push(Math.min(remaining, max));
+    }
+    const lastIndex = sizes.length - 1;
+    if (lastIndex > 0 && sizes[lastIndex]! < min) {
+      // Even out the last two groups; together they hold more than max, and max >= 2 * min - 1
+      const total = sizes[lastIndex - 1]! + sizes[lastIndex]!;
+      sizes[lastIndex - 1] = Math.ceil(total / 2);
+      sizes[lastIndex] = Math.floor(total / 2);
+    }
+    return sizes;
+  }
+
+  /**
+   * Walks the leaves forward from a position, up to an optional end bound.
+   * The end is resolved once per leaf, so only the final leaf of a range
+   * compares keys against it.
+   */
+  private scan<R>(
+    startLeaf: LeafNode<K, V>,
+    startIndex: number,
+    end: { key: K; inclusive: boolean } | null,
+    project: (keys: K[], values: V[], index: number) => R
+  ): IterableIterator<R> {
+    const tree = this;
+    const expectedModCount = this.modCount;
+    let leaf: LeafNode<K, V> | null = null;
+    let index = startIndex;
+    let stop = 0;
+    let pending: LeafNode<K, V> | null = startLeaf;
+
+    const iterator: IterableIterator<R> = {
+      next(): IteratorResult<R> {
+        tree.assertUnmodified(expectedModCount);
+        while (leaf === null || index >= stop) {
+          if (pending === null) {
+            return { done: true, value: undefined };
+          }
+          if (leaf !== null) index = 0;
+          leaf = pending;
+          pending = leaf.next;
+          stop = leaf.keys.length;
+          if (end !== null && stop > 0 && !tree.beforeEnd(leaf.keys[stop - 1]!, end)) {
+            // The range ends inside this leaf
+            stop = end.inclusive ? tree.upperBound(leaf.keys, end.key) : tree.lowerBound(leaf.keys, end.key);
+            pending = null;
+          }
+        }
+        return { done: false, value: project(leaf.keys, leaf.values, index++) };
+      },
+      [Symbol.iterator]() {
+        return iterator;
+      },
+    };
+
+    return iterator;
+  }
+
+  /**
+   * Checks if key is inside a range ending at end.
+   */
+  private beforeEnd(key: K, end: { key: K; inclusive: boolean }): boolean {
+    const cmp = this.comparator(key, end.key);
+    return cmp < 0 || (cmp === 0 && end.inclusive);
+  }
+
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('BPlusTree was modified during iteration');
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Tree data structures
+ */
+
+export { TreeMap } from "./tree-map";
+export { TreeSet } from "./tree-set";
+export { BPlusTree } from "./b-plus-tree";
+export type { BPlusTreeOptions, BPlusTreeStats } from "./b-plus-tree";
@@ -0,0 +1,407 @@
+import { ComparatorFn } from "../../types";
+
+/**
+ * Node in a red-black tree.
+ * `size` counts the nodes in this subtree, which makes rank and select O(log n).
+ */
+export class TreeNode<K, V> {
+  left: TreeNode<K, V> | null = null;
+  right: TreeNode<K, V> | null = null;
+  red = true;
+  size = 1;
+
+  constructor(
+    public key: K,
+    public value: V,
+    public parent: TreeNode<K, V> | null
+  ) {}
+}
+
+/**
+ * Size-augmented red-black tree backing TreeMap and TreeSet.
+ *
+ * Removal relinks nodes instead of copying keys between them, so a node
+ * keeps its key and value for as long as it is in the tree. Iterators rely
+ * on this to hold on to the next node across a removal.
+ *
+ * Performance Characteristics:
+ * - insert/remove/find: O(log n)
+ * - floor/ceiling/rank/select: O(log n)
+ * - successor/predecessor: O(log n) worst case, O(1) amortized over a walk
+ */
+export class RedBlackTree<K, V> {
+  root: TreeNode<K, V> | null = null;
+  modCount = 0;
+
+  constructor(readonly comparator: ComparatorFn<K>) {}
+
+  get size(): number {
+    return sizeOf(this.root);
+  }
+
+  find(key: K): TreeNode<K, V> | null {
+    let current = this.root;
+    while (current !== null) {
+      const cmp = this.comparator(key, current.key);
+      if (cmp === 0) return current;
+      current = cmp < 0 ? current.left : current.right;
+    }
+    return null;
+  }
+
+  /**
+   * Inserts a key, or replaces the value of an equal key.
+   * @returns true if a node was added
+   */
+  insert(key: K, value: V): boolean {
+    let parent: TreeNode<K, V> | null = null;
+    let current = this.root;
+    let cmp = 0;
+    while (current !== null) {
+      cmp = this.comparator(key, current.key);
+      if (cmp === 0) {
+        current.value = value;
+        return false;
+      }
+      parent = current;
+      current = cmp < 0 ? current.left : current.right;
+    }
+
+    const node = new TreeNode(key, value, parent);
+    if (parent === null) {
+      this.root = node;
+    } else if (cmp < 0) {
+      parent.left = node;
+    } else {
+      parent.right = node;
+    }
+    for (let ancestor = parent; ancestor !== null; ancestor = ancestor.parent) {
+      ancestor.size++;
+    }
+
+    this.fixAfterInsert(node);
+    this.modCount++;
+    return true;
+  }
+
+  remove(node: TreeNode<K, V>): void {
+    let removedRed = node.red;
+    let child: TreeNode<K, V> | null;
+    let childParent: TreeNode<K, V> | null;
+
+    if (node.left === null) {
+      child = node.right;
+      childParent = node.parent;
+      this.transplant(node, node.right);
+    } else if (node.right === null) {
+      child = node.left;
+      childParent = node.parent;
+      this.transplant(node, node.left);
+    } else {
+      // Two children: the successor takes the node's place in the tree
+      const successor = minNode(node.right);
+      removedRed = successor.red;
+      child = successor.right;
+      if (successor.parent === node) {
+        childParent = successor;
+      } else {
+        childParent = successor.parent;
+        this.transplant(successor, successor.right);
+        successor.right = node.right;
+        successor.right.parent = successor;
+      }
+      this.transplant(node, successor);
+      successor.left = node.left;
+      successor.left.parent = successor;
+      successor.red = node.red;
+    }
+
+    for (let ancestor = childParent; ancestor !== null; ancestor = ancestor.parent) {
+      ancestor.size = 1 + sizeOf(ancestor.left) + sizeOf(ancestor.right);
+    }
+    if (!removedRed) {
+      this.fixAfterRemove(child, childParent);
+    }
+
+    node.left = node.right = node.parent = null;
+    this.modCount++;
+  }
+
+  clear(): void {
+    this.root = null;
+    this.modCount++;
+  }
+
+  first(): TreeNode<K, V> | null {
+    return this.root === null ? null : minNode(this.root);
+  }
+
+  last(): TreeNode<K, V> | null {
+    return this.root === null ? null : maxNode(this.root);
+  }
+
+  /**
+   * Returns the greatest node whose key is below key (or equal, when inclusive).
+   */
+  floor(key: K, inclusive: boolean): TreeNode<K, V> | null {
+    let current = this.root;
+    let best: TreeNode<K, V> | null = null;
+    while (current !== null) {
+      const cmp = this.comparator(key, current.key);
+      if (cmp > 0 || (cmp === 0 && inclusive)) {
+        best = current;
+        current = current.right;
+      } else {
+        current = current.left;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Returns the least node whose key is above key (or equal, when inclusive).
+   */
+  ceiling(key: K, inclusive: boolean): TreeNode<K, V> | null {
+    let current = this.root;
+    let best: TreeNode<K, V> | null = null;
+    while (current !== null) {
+      const cmp = this.comparator(key, current.key);
+      if (cmp < 0 || (cmp === 0 && inclusive)) {
+        best = current;
+        current = current.left;
+      } else {
+        current = current.right;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Counts the keys below key (or equal, when inclusive).
+   */
+  rank(key: K, inclusive: boolean): number {
+    let current = this.root;
+    let count = 0;
+    while (current !== null) {
+      const cmp = this.comparator(key, current.key);
+      if (cmp > 0 || (cmp === 0 && inclusive)) {
+        count += sizeOf(current.left) + 1;
+        current = current.right;
+      } else {
+        current = current.left;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Returns the node with the given zero-based position in key order.
+   */
+  select(index: number): TreeNode<K, V> | null {
+    let current = this.root;
+    while (current !== null) {
+      const leftSize = sizeOf(current.left);
+      if (index < leftSize) {
+        current = current.left;
+      } else if (index === leftSize) {
+        return current;
+      } else {
+        index -= leftSize + 1;
+        current = current.right;
+      }
+    }
+    return null;
+  }
+
+  successor(node: TreeNode<K, V>): TreeNode<K, V> | null {
+    if (node.right !== null) return minNode(node.right);
+    let child = node;
+    let parent = node.parent;
+    while (parent !== null && child === parent.right) {
+      child = parent;
+      parent = parent.parent;
+    }
+    return parent;
+  }
+
+  predecessor(node: TreeNode<K, V>): TreeNode<K, V> | null {
+    if (node.left !== null) return maxNode(node.left);
+    let child = node;
+    let parent = node.parent;
+    while (parent !== null && child === parent.left) {
+      child = parent;
+      parent = parent.parent;
+    }
+    return parent;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private fixAfterInsert(node: TreeNode<K, V>): void {
+    let current = node;
+    while (current.parent !== null && current.parent.red) {
+      const parent = current.parent;
+      // A red parent is never the root, so the grandparent exists
+      const grandparent = parent.parent!;
+      if (parent === grandparent.left) {
+        const uncle = grandparent.right;
+        if (isRed(uncle)) {
+          parent.red = false;
+          uncle!.red = false;
+          grandparent.red = true;
+          current = grandparent;
+        } else {
+          if (current === parent.right) {
+            current = parent;
+            this.rotateLeft(current);
+          }
+          current.parent!.red = false;
+          grandparent.red = true;
+          this.rotateRight(grandparent);
+        }
+      } else {
+        const uncle = grandparent.left;
+        if (isRed(uncle)) {
+          parent.red = false;
+          uncle!.red = false;
+          grandparent.red = true;
+          current = grandparent;
+        } else {
+          if (current === parent.left) {
+            current = parent;
+            this.rotateRight(current);
+          }
+          current.parent!.red = false;
+          grandparent.red = true;
+          this.rotateLeft(grandparent);
+        }
+      }
+    }
+    this.root!.red = false;
+  }
+
+  /**
+   * Restores the black-height after removing a black node.
+   * `node` carries the extra black and may be null, so its parent is passed separately.
+   */
+  private fixAfterRemove(node: TreeNode<K, V> | null, parent: TreeNode<K, V> | null): void {
+    let current = node;
+    let currentParent = parent;
+    while (current !== this.root && !isRed(current) && currentParent !== null) {
+      if (current === currentParent.left) {
+        // The sibling of a doubly-black position always exists
+        let sibling = currentParent.right!;
+        if (sibling.red) {
+          sibling.red = false;
+          currentParent.red = true;
+          this.rotateLeft(currentParent);
+          sibling = currentParent.right!;
+        }
+        if (!isRed(sibling.left) && !isRed(sibling.right)) {
+          sibling.red = true;
+          current = currentParent;
+          currentParent = current.parent;
+        } else {
+          if (!isRed(sibling.right)) {
+            sibling.left!.red = false;
+            sibling.red = true;
+            this.rotateRight(sibling);
+            sibling = currentParent.right!;
+          }
+          sibling.red = currentParent.red;
+          currentParent.red = false;
+          sibling.right!.red = false;
+          this.rotateLeft(currentParent);
+          current = this.root;
+          currentParent = null;
+        }
+      } else {
+        let sibling = currentParent.left!;
+        if (sibling.red) {
+          sibling.red = false;
+          currentParent.red = true;
+          this.rotateRight(currentParent);
+          sibling = currentParent.left!;
+        }
+        if (!isRed(sibling.left) && !isRed(sibling.right)) {
+          sibling.red = true;
+          current = currentParent;
+          currentParent = current.parent;
+        } else {
+          if (!isRed(sibling.left)) {
+            sibling.right!.red = false;
+            sibling.red = true;
+            this.rotateLeft(sibling);
+            sibling = currentParent.left!;
+          }
+          sibling.red = currentParent.red;
+          currentParent.red = false;
+          sibling.left!.red = false;
+          this.rotateRight(currentParent);
+          current = this.root;
+          currentParent = null;
+        }
+      }
+    }
+    if (current !== null) current.red = false;
+  }
+
+  /**
+   * Replaces the subtree rooted at target with the one rooted at replacement.
+   */
+  private transplant(target: TreeNode<K, V>, replacement: TreeNode<K, V> | null): void {
+    const parent = target.parent;
+    if (parent === null) {
+      this.root = replacement;
+    } else if (target === parent.left) {
+      parent.left = replacement;
+    } else {
+      parent.right = replacement;
+    }
+    if (replacement !== null) {
+      replacement.parent = parent;
+    }
+  }
+
+  private rotateLeft(node: TreeNode<K, V>): void {
+    const pivot = node.right!;
+    node.right = pivot.left;
+    if (pivot.left !== null) pivot.left.parent = node;
+    this.transplant(node, pivot);
+    pivot.left = node;
+    node.parent = pivot;
+    pivot.size = node.size;
+    node.size = 1 + sizeOf(node.left) + sizeOf(node.right);
+  }
+
+  private rotateRight(node: TreeNode<K, V>): void {
+    const pivot = node.left!;
+    node.left = pivot.right;
+    if (pivot.right !== null) pivot.right.parent = node;
+    this.transplant(node, pivot);
+    pivot.right = node;
+    node.parent = pivot;
+    pivot.size = node.size;
+    node.size = 1 + sizeOf(node.left) + sizeOf(node.right);
+  }
+}
+
+function sizeOf<K, V>(node: TreeNode<K, V> | null): number {
+  return node === null ? 0 : node.size;
+}
+
+function isRed<K, V>(node: TreeNode<K, V> | null): boolean {
+  return node !== null && node.red;
+}
+
+function minNode<K, V>(node: TreeNode<K, V>): TreeNode<K, V> {
+  while (node.left !== null) node = node.left;
+  return node;
+}
+
+function maxNode<K, V>(node: TreeNode<K, V>): TreeNode<K, V> {
+  while (node.right !== null) node = node.right;
+  return node;
+}
@@ -0,0 +1,554 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IKeyedIterable, IMutableIterator } from "../interfaces/iterable.interface";
+import { ConcurrentModificationError } from "../errors/concurrent-modification.error";
+import { ComparatorFn, defaultComparator } from "../../types";
+import { RedBlackTree, TreeNode } from "./red-black-tree";
+
+/**
+ * One end of a range view.
+ */
+interface RangeBound<K> {
+  key: K;
+  inclusive: boolean;
+}
+
+/**
+ * Sorted map backed by a red-black tree.
+ *
+ * Keys are ordered by a ComparatorFn, and two keys the comparator reports
+ * as equal share one entry. Besides the usual map operations, TreeMap
+ * answers navigation queries (floor, ceiling, lower, higher), order
+ * statistics (rank, select) and range queries.
+ *
+ * subMap, headMap and tailMap return views, not copies: a view shares the
+ * tree with the map that created it, so changes through either are visible
+ * in both, and a view only sees and accepts keys inside its range. Views
+ * iterate lazily in both directions and report their size in O(log n).
+ *
+ * Performance Characteristics:
+ * - get/set/has/delete: O(log n)
+ * - first/last/pollFirst/pollLast: O(log n)
+ * - floor/ceiling/lower/higher: O(log n)
+ * - rank/select: O(log n)
+ * - subMap/headMap/tailMap: O(1) to create
+ *
+ * @example
+ * ```typescript
+ * const readings = new TreeMap<number, Reading>();
+ * readings.set(reading.timestamp, reading);
+ * const lastHour = readings.subMap(now - 3_600_000, now, true, true);
+ * for (const [time, reading] of lastHour.entriesReverse()) { ... }
+ * ```
+ */
+export class TreeMap<K, V> implements ICollection<V>, IKeyedIterable<K, V> {
+  private tree: RedBlackTree<K, V>;
+  private low: RangeBound<K> | null = null;
+  private high: RangeBound<K> | null = null;
+
+  constructor(comparator: ComparatorFn<K> = defaultComparator) {
+    this.tree = new RedBlackTree<K, V>(comparator);
+  }
+
+  /**
+   * Creates a TreeMap from [key, value] entries. Later duplicates overwrite earlier ones.
+   * Time Complexity: O(n log n)
+   *
+   * @param entries - The entries to add
+   * @param comparator - Key ordering
+   */
+  static from<K, V>(
+    entries: Iterable<readonly [K, V]>,
+    comparator: ComparatorFn<K> = defaultComparator
+  ): TreeMap<K, V> {
+    const map = new TreeMap<K, V>(comparator);
+    for (const [key, value] of entries) {
+      map.set(key, value);
+    }
+    return map;
+  }
+
+  /**
+   * Returns the number of entries in the map or view.
+   * Time Complexity: O(1) for a map, O(log n) for a view
+   */
+  get size(): number {
+    if (this.low === null && this.high === null) {
+      return this.tree.size;
+    }
+    return Math.max(0, this.countBelowHigh() - this.countBelowLow());
+  }
+
+  /**
+   * Checks if the map or view is empty.
+   */
+  isEmpty(): boolean {
+    return this.lowestNode() === null;
+  }
+
+  /**
+   * Returns the value stored for a key.
+   * Time Complexity: O(log n)
+   */
+  get(key: K): V | undefined {
+    return this.findNode(key)?.value;
+  }
+
+  /**
+   * Stores a value for a key.
+   * Time Complexity: O(log n)
+   *
+   * @throws If this is a view and the key is outside its range
+   */
+  set(key: K, value: V): this {
+    if (!this.inRange(key)) {
+      throw new Error('TreeMap key is outside the range of this view');
+    }
+    this.tree.insert(key, value);
+    return this;
+  }
+
+  /**
+   * Checks if a key exists.
+   * Time Complexity: O(log n)
+   */
+  has(key: K): boolean {
+    return this.findNode(key) !== null;
+  }
+
+  /**
+   * Removes a key and its value.
+   * Time Complexity: O(log n)
+   *
+   * @returns true if the key was present
+   */
+  delete(key: K): boolean {
+    const node = this.findNode(key);
+    if (node === null) return false;
+    this.tree.remove(node);
+    return true;
+  }
+
+  /**
+   * Removes all entries. On a view, removes only the entries in its range.
+   * Time Complexity: O(1) for a map, O(k log n) for a view of k entries
+   */
+  clear(): void {
+    if (this.low === null && this.high === null) {
+      this.tree.clear();
+      return;
+    }
+    const iterator = this.entries();
+    while (!iterator.next().done) {
+      iterator.remove();
+    }
+  }
+
+  /**
+   * Checks if any entry holds a value (compared with ===).
+   * Time Complexity: O(n)
+   */
+  contains(value: V): boolean {
+    for (const candidate of this.values()) {
+      if (candidate === value) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns all values in key order.
+   */
+  toArray(): V[] {
+    return [...this.values()];
+  }
+
+  /**
+   * Returns the entry with the lowest key.
+   * Time Complexity: O(log n)
+   */
+  first(): [K, V] | undefined {
+    return toEntry(this.lowestNode());
+  }
+
+  /**
+   * Returns the entry with the highest key.
+   * Time Complexity: O(log n)
+   */
+  last(): [K, V] | undefined {
+    return toEntry(this.highestNode());
+  }
+
+  /**
+   * Removes and returns the entry with the lowest key.
+   * Time Complexity: O(log n)
+   */
+  pollFirst(): [K, V] | undefined {
+    return this.poll(this.lowestNode());
+  }
+
+  /**
+   * Removes and returns the entry with the highest key.
+   * Time Complexity: O(log n)
+   */
+  pollLast(): [K, V] | undefined {
+    return this.poll(this.highestNode());
+  }
+
+  /**
+   * Returns the entry with the greatest key less than or equal to key.
+   * Time Complexity: O(log n)
+   */
+  floor(key: K): [K, V] | undefined {
+    return toEntry(this.below(key, true));
+  }
+
+  /**
+   * Returns the entry with the least key greater than or equal to key.
+   * Time Complexity: O(log n)
+   */
+  ceiling(key: K): [K, V] | undefined {
+    return toEntry(this.above(key, true));
+  }
+
+  /**
+   * Returns the entry with the greatest key strictly less than key.
+   * Time Complexity: O(log n)
+   */
+  lower(key: K): [K, V] | undefined {
+    return toEntry(this.below(key, false));
+  }
+
+  /**
+   * Returns the entry with the least key strictly greater than key.
+   * Time Complexity: O(log n)
+   */
+  higher(key: K): [K, V] | undefined {
+    return toEntry(this.above(key, false));
+  }
+
+  /**
+   * Returns the number of keys strictly less than key, which is the index
+   * key has, or would have, in key order.
+   * Time Complexity: O(log n)
+   */
+  rank(key: K): number {
+    const below = this.tree.rank(key, false) - this.countBelowLow();
+    return Math.min(Math.max(below, 0), this.size);
+  }
+
+  /**
+   * Returns the entry at a zero-based position in key order.
+   * Time Complexity: O(log n)
+   *
+   * @param index - Position from the lowest key
+   */
+  select(index: number): [K, V] | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      return undefined;
+    }
+    return toEntry(this.tree.select(this.countBelowLow() + index));
+  }
+
+  /**
+   * Returns a live view of the entries with keys from fromKey to toKey.
+   * Time Complexity: O(1)
+   *
+   * @param fromKey - Low end of the range
+   * @param toKey - High end of the range
+   * @param fromInclusive - Whether fromKey itself is in range (default true)
+   * @param toInclusive - Whether toKey itself is in range (default false)
+   * @throws If fromKey is greater than toKey, or the range reaches outside this view
+   */
+  subMap(fromKey: K, toKey: K, fromInclusive = true, toInclusive = false): TreeMap<K, V> {
+    if (this.tree.comparator(fromKey, toKey) > 0) {
+      throw new Error('TreeMap subMap fromKey must not be greater than toKey');
+    }
+    return this.view({ key: fromKey, inclusive: fromInclusive }, { key: toKey, inclusive: toInclusive });
+  }
+
+  /**
+   * Returns a live view of the entries with keys below toKey.
+   * Time Complexity: O(1)
+   *
+   * @param toKey - High end of the range
+   * @param inclusive - Whether toKey itself is in range (default false)
+   * @throws If the range reaches outside this view
+   */
+  headMap(toKey: K, inclusive = false): TreeMap<K, V> {
+    return this.view(this.low, { key: toKey, inclusive });
+  }
+
+  /**
+   * Returns a live view of the entries with keys from fromKey up.
+   * Time Complexity: O(1)
+   *
+   * @param fromKey - Low end of the range
+   * @param inclusive - Whether fromKey itself is in range (default true)
+   * @throws If the range reaches outside this view
+   */
+  tailMap(fromKey: K, inclusive = true): TreeMap<K, V> {
+    return this.view({ key: fromKey, inclusive }, this.high);
+  }
+
+  /**
+   * Iterates values in ascending key order.
+   * Changing the map while iterating throws a ConcurrentModificationError,
+   * except through the iterator's own remove(). Updating the value of an
+   * existing key is allowed.
+   */
+  [Symbol.iterator](): IMutableIterator<V> {
+    return this.iterate(false, (node) => node.value);
+  }
+
+  /**
+   * Iterates [key, value] entries in ascending key order.
+   */
+  entries(): IMutableIterator<[K, V]> {
+    return this.iterate(false, (node) => [node.key, node.value]);
+  }
+
+  /**
+   * Iterates keys in ascending order.
+   */
+  keys(): IMutableIterator<K> {
+    return this.iterate(false, (node) => node.key);
+  }
+
+  /**
+   * Iterates values in ascending key order.
+   */
+  values(): IMutableIterator<V> {
+    return this.iterate(false, (node) => node.value);
+  }
+
+  /**
+   * Iterates [key, value] entries in descending key order.
+   */
+  entriesReverse(): IMutableIterator<[K, V]> {
+    return this.iterate(true, (node) => [node.key, node.value]);
+  }
+
+  /**
+   * Iterates keys in descending order.
+   */
+  keysReverse(): IMutableIterator<K> {
+    return this.iterate(true, (node) => node.key);
+  }
+
+  /**
+   * Iterates values in descending key order.
+   */
+  valuesReverse(): IMutableIterator<V> {
+    return this.iterate(true, (node) => node.value);
+  }
+
+  /**
+   * Executes a function for each entry, in ascending key order.
+   * The callback receives (value, key, index), in Map.prototype.forEach order.
+   */
+  forEach(callback: (value: V, key: K, index: number) => void): void {
+    let index = 0;
+    for (const [key, value] of this.entries()) {
+      callback(value, key, index);
+      index++;
+    }
+  }
+
+  /**
+   * Maps entries, in ascending key order, to a new array.
+   */
+  map<U>(callback: (value: V, key: K, index: number) => U): U[] {
+    const result: U[] = [];
+    this.forEach((value, key, index) => {
+      result.push(callback(value, key, index));
+    });
+    return result;
+  }
+
+  /**
+   * Returns the values whose entries pass the predicate.
+   */
+  filter(predicate: (value: V, key: K, index: number) => boolean): V[] {
+    const result: V[] = [];
+    this.forEach((value, key, index) => {
+      if (predicate(value, key, index)) result.push(value);
+    });
+    return result;
+  }
+
+  /**
+   * Tests whether any entry passes the predicate.
+   */
+  some(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    let index = 0;
+    for (const [key, value] of this.entries()) {
+      if (predicate(value, key, index)) return true;
+      index++;
+    }
+    return false;
+  }
+
+  /**
+   * Tests whether every entry passes the predicate.
+   */
+  every(predicate: (value: V, key: K, index: number) => boolean): boolean {
+    return !this.some((value, key, index) => !predicate(value, key, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Creates a view over the same tree with the given bounds.
+   */
+  private view(low: RangeBound<K> | null, high: RangeBound<K> | null): TreeMap<K, V> {
+    if (!this.containsBound(low, true) || !this.containsBound(high, false)) {
+      throw new Error('TreeMap range is outside the range of this view');
+    }
+    const view = new TreeMap<K, V>(this.tree.comparator);
+    view.tree = this.tree;
+    view.low = low;
+    view.high = high;
+    return view;
+  }
+
+  /**
+   * Checks that a requested bound does not extend past this view's own bound.
+   */
+  private containsBound(bound: RangeBound<K> | null, isLow: boolean): boolean {
+    const own = isLow ? this.low : this.high;
+    if (own === null) return true;
+    if (bound === null) return false;
+    const cmp = this.tree.comparator(bound.key, own.key);
+    if (cmp === 0) return own.inclusive || !bound.inclusive;
+    return isLow ? cmp > 0 : cmp < 0;
+  }
+
+  private tooLow(key: K): boolean {
+    if (this.low === null) return false;
+    const cmp = this.tree.comparator(key, this.low.key);
+    return cmp < 0 || (cmp === 0 && !this.low.inclusive);
+  }
+
+  private tooHigh(key: K): boolean {
+    if (this.high === null) return false;
+    const cmp = this.tree.comparator(key, this.high.key);
+    return cmp > 0 || (cmp === 0 && !this.high.inclusive);
+  }
+
+  private inRange(key: K): boolean {
+    return !this.tooLow(key) && !this.tooHigh(key);
+  }
+
+  private findNode(key: K): TreeNode<K, V> | null {
+    return this.inRange(key) ? this.tree.find(key) : null;
+  }
+
+  /**
+   * Number of keys in the whole tree below this view's low bound.
+   */
+  private countBelowLow(): number {
+    if (this.low === null) return 0;
+    return this.tree.rank(this.low.key, !this.low.inclusive);
+  }
+
+  /**
+   * Number of keys in the whole tree up to and including this view's high bound.
+   */
+  private countBelowHigh(): number {
+    if (this.high === null) return this.tree.size;
+    return this.tree.rank(this.high.key, this.high.inclusive);
+  }
+
+  private lowestNode(): TreeNode<K, V> | null {
+    const node = this.low === null
+      ? this.tree.first()
+      : this.tree.ceiling(this.low.key, this.low.inclusive);
+    return node !== null && !this.tooHigh(node.key) ? node : null;
+  }
+
+  private highestNode(): TreeNode<K, V> | null {
+    const node = this.high === null
+      ? this.tree.last()
+      : this.tree.floor(this.high.key, this.high.inclusive);
+    return node !== null && !this.tooLow(node.key) ? node : null;
+  }
+
+  /**
+   * Greatest in-range node below key (or equal, when inclusive).
+   */
+  private below(key: K, inclusive: boolean): TreeNode<K, V> | null {
+    if (this.tooHigh(key)) return this.highestNode();
+    const node = this.tree.floor(key, inclusive);
+    return node !== null && !this.tooLow(node.key) ? node : null;
+  }
+
+  /**
+   * Least in-range node above key (or equal, when inclusive).
+   */
+  private above(key: K, inclusive: boolean): TreeNode<K, V> | null {
+    if (this.tooLow(key)) return this.lowestNode();
+    const node = this.tree.ceiling(key, inclusive);
+    return node !== null && !this.tooHigh(node.key) ? node : null;
+  }
+
+  private poll(node: TreeNode<K, V> | null): [K, V] | undefined {
+    if (node === null) return undefined;
+    const entry = toEntry(node);
+    this.tree.remove(node);
+    return entry;
+  }
+
+  /**
+   * Walks the in-range nodes in either direction. remove() deletes the node
+   * last returned; removal relinks nodes without moving keys, so the next
+   * node stays valid.
+   */
+  private iterate<R>(reverse: boolean, project: (node: TreeNode<K, V>) => R): IMutableIterator<R> {
+    const map = this;
+    const tree = this.tree;
+    let current = reverse ? this.highestNode() : this.lowestNode();
+    let lastReturned: TreeNode<K, V> | null = null;
+    let expectedModCount = tree.modCount;
+
+    const iterator: IMutableIterator<R> = {
+      next(): IteratorResult<R> {
+        map.assertUnmodified(expectedModCount);
+        if (current === null) {
+          lastReturned = null;
+          return { done: true, value: undefined };
+        }
+        lastReturned = current;
+        const following = reverse ? tree.predecessor(current) : tree.successor(current);
+        current = following !== null && (reverse ? !map.tooLow(following.key) : !map.tooHigh(following.key))
+          ? following
+          : null;
+        return { done: false, value: project(lastReturned) };
+      },
+      remove(): void {
+        map.assertUnmodified(expectedModCount);
+        if (lastReturned === null) {
+          throw new Error('TreeMap iterator remove() requires a preceding next()');
+        }
+        tree.remove(lastReturned);
+        lastReturned = null;
+        expectedModCount = tree.modCount;
+      },
+      [Symbol.iterator]() {
+        return iterator;
+      },
+    };
+
+    return iterator;
+  }
+
+  private assertUnmodified(expectedModCount: number): void {
+    if (this.tree.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('TreeMap was modified during iteration');
+    }
+  }
+}
+
+function toEntry<K, V>(node: TreeNode<K, V> | null): [K, V] | undefined {
+  return node === null ? undefined : [node.key, node.value];
+}
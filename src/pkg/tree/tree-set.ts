@@ -0,0 +1,284 @@
+import { ICollection } from "../interfaces/collection.inteface";
+import { IIterable, IMutableIterator } from "../interfaces/iterable.interface";
+import { ComparatorFn, defaultComparator } from "../../types";
+import { TreeMap } from "./tree-map";
+
+/**
+ * Sorted set backed by a red-black tree.
+ *
+ * Elements are ordered, and deduplicated, by a ComparatorFn. Like TreeMap
+ * it offers navigation queries, order statistics and live range views
+ * (subSet, headSet, tailSet) that iterate lazily in both directions.
+ *
+ * Performance Characteristics:
+ * - add/has/delete: O(log n)
+ * - first/last/pollFirst/pollLast: O(log n)
+ * - floor/ceiling/lower/higher: O(log n)
+ * - rank/select: O(log n)
+ *
+ * @example
+ * ```typescript
+ * const scores = TreeSet.from([72, 95, 88, 61]);
+ * scores.ceiling(80);  // 88
+ * scores.rank(88);     // 2
+ * [...scores.headSet(80)]; // [61, 72]
+ * ```
+ */
+export class TreeSet<T> implements ICollection<T>, IIterable<T> {
+  private table: TreeMap<T, T>;
+
+  constructor(comparator: ComparatorFn<T> = defaultComparator) {
+    this.table = new TreeMap<T, T>(comparator);
+  }
+
+  /**
+   * Creates a TreeSet from any iterable. Equal elements are kept once, first occurrence first.
+   * Time Complexity: O(n log n)
+   *
+   * @param elements - The elements to add
+   * @param comparator - Element ordering
+   */
+  static from<T>(elements: Iterable<T>, comparator: ComparatorFn<T> = defaultComparator): TreeSet<T> {
+    const set = new TreeSet<T>(comparator);
+    for (const element of elements) {
+      set.add(element);
+    }
+    return set;
+  }
+
+  /**
+   * Returns the number of elements in the set or view.
+   * Time Complexity: O(1) for a set, O(log n) for a view
+   */
+  get size(): number {
+    return this.table.size;
+  }
+
+  /**
+   * Checks if the set or view is empty.
+   */
+  isEmpty(): boolean {
+    return this.table.isEmpty();
+  }
+
+  /**
+   * Adds an element unless an equal one is already present.
+   * Time Complexity: O(log n)
+   *
+   * @throws If this is a view and the element is outside its range
+   */
+  add(element: T): this {
+    if (!this.table.has(element)) {
+      this.table.set(element, element);
+    }
+    return this;
+  }
+
+  /**
+   * Checks if the set has an element equal to the given one.
+   * Time Complexity: O(log n)
+   */
+  has(element: T): boolean {
+    return this.table.has(element);
+  }
+
+  /**
+   * Removes the element equal to the given one.
+   * Time Complexity: O(log n)
+   *
+   * @returns true if an element was removed
+   */
+  delete(element: T): boolean {
+    return this.table.delete(element);
+  }
+
+  /**
+   * Removes all elements. On a view, removes only the elements in its range.
+   */
+  clear(): void {
+    this.table.clear();
+  }
+
+  /**
+   * Checks if the set has an element equal to the given one. Same as has().
+   */
+  contains(element: T): boolean {
+    return this.table.has(element);
+  }
+
+  /**
+   * Returns the elements in ascending order.
+   */
+  toArray(): T[] {
+    return this.table.toArray();
+  }
+
+  /**
+   * Returns the lowest element.
+   */
+  first(): T | undefined {
+    return this.table.first()?.[0];
+  }
+
+  /**
+   * Returns the highest element.
+   */
+  last(): T | undefined {
+    return this.table.last()?.[0];
+  }
+
+  /**
+   * Removes and returns the lowest element.
+   */
+  pollFirst(): T | undefined {
+    return this.table.pollFirst()?.[0];
+  }
+
+  /**
+   * Removes and returns the highest element.
+   */
+  pollLast(): T | undefined {
+    return this.table.pollLast()?.[0];
+  }
+
+  /**
+   * Returns the greatest element less than or equal to the given one.
+   */
+  floor(element: T): T | undefined {
+    return this.table.floor(element)?.[0];
+  }
+
+  /**
+   * Returns the least element greater than or equal to the given one.
+   */
+  ceiling(element: T): T | undefined {
+    return this.table.ceiling(element)?.[0];
+  }
+
+  /**
+   * Returns the greatest element strictly less than the given one.
+   */
+  lower(element: T): T | undefined {
+    return this.table.lower(element)?.[0];
+  }
+
+  /**
+   * Returns the least element strictly greater than the given one.
+   */
+  higher(element: T): T | undefined {
+    return this.table.higher(element)?.[0];
+  }
+
+  /**
+   * Returns the number of elements strictly less than the given one.
+   * Time Complexity: O(log n)
+   */
+  rank(element: T): number {
+    return this.table.rank(element);
+  }
+
+  /**
+   * Returns the element at a zero-based position in ascending order.
+   * Time Complexity: O(log n)
+   */
+  select(index: number): T | undefined {
+    return this.table.select(index)?.[0];
+  }
+
+  /**
+   * Returns a live view of the elements from fromElement to toElement.
+   * See TreeMap.subMap for the bound rules.
+   */
+  subSet(fromElement: T, toElement: T, fromInclusive = true, toInclusive = false): TreeSet<T> {
+    return this.wrap(this.table.subMap(fromElement, toElement, fromInclusive, toInclusive));
+  }
+
+  /**
+   * Returns a live view of the elements below toElement.
+   */
+  headSet(toElement: T, inclusive = false): TreeSet<T> {
+    return this.wrap(this.table.headMap(toElement, inclusive));
+  }
+
+  /**
+   * Returns a live view of the elements from fromElement up.
+   */
+  tailSet(fromElement: T, inclusive = true): TreeSet<T> {
+    return this.wrap(this.table.tailMap(fromElement, inclusive));
+  }
+
+  /**
+   * Iterates elements in ascending order.
+   * Changing the set while iterating throws a ConcurrentModificationError,
+   * except through the iterator's own remove().
+   */
+  [Symbol.iterator](): IMutableIterator<T> {
+    return this.table.keys();
+  }
+
+  /**
+   * Iterates elements in ascending order.
+   */
+  values(): IMutableIterator<T> {
+    return this.table.keys();
+  }
+
+  /**
+   * Iterates elements in descending order.
+   */
+  valuesReverse(): IMutableIterator<T> {
+    return this.table.keysReverse();
+  }
+
+  /**
+   * Executes a function for each element, in ascending order.
+   */
+  forEach(callback: (element: T, index: number) => void): void {
+    this.table.forEach((_value, key, index) => callback(key, index));
+  }
+
+  /**
+   * Maps elements, in ascending order, to a new array.
+   */
+  map<U>(callback: (element: T, index: number) => U): U[] {
+    return this.table.map((_value, key, index) => callback(key, index));
+  }
+
+  /**
+   * Returns the elements that pass the predicate.
+   */
+  filter(predicate: (element: T, index: number) => boolean): T[] {
+    const result: T[] = [];
+    this.table.forEach((_value, key, index) => {
+      if (predicate(key, index)) result.push(key);
+    });
+    return result;
+  }
+
+  /**
+   * Tests whether any element passes the predicate.
+   */
+  some(predicate: (element: T, index: number) => boolean): boolean {
+    return this.table.some((_value, key, index) => predicate(key, index));
+  }
+
+  /**
+   * Tests whether every element passes the predicate.
+   */
+  every(predicate: (element: T, index: number) => boolean): boolean {
+    return this.table.every((_value, key, index) => predicate(key, index));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Wraps a TreeMap view as a set view.
+   */
+  private wrap(view: TreeMap<T, T>): TreeSet<T> {
+    const set = new TreeSet<T>();
+    set.table = view;
+    return set;
+  }
+}
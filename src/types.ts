@@ -6,7 +6,7 @@
  * Represents types that can be compared using standard comparison operators.
  * This includes primitives that have a natural ordering.
  */
-export type Comparable<T> = T extends number | string | Date | boolean ? T : never;
+export type Comparable<T> = T extends number | bigint | string | Date | boolean ? T : never;
 
 /**
  * Comparator function type for custom comparison logic.
@@ -16,11 +16,34 @@ export type ComparatorFn<T> = (a: T, b: T) => number;
 
 /**
  * Default comparator for comparable types.
+ * Numbers and bigints compare numerically with each other, and NaN sorts
+ * after every other number. Values of different kinds never compare as
+ * equal; they are ordered by kind instead:
+ * booleans < numbers/bigints < strings < Dates < other objects < symbols < null < undefined.
  */
 export function defaultComparator<T>(a: T, b: T): number {
-  if (a < b) return -1;
-  if (a > b) return 1;
-  return 0;
+  const typeA = typeof a;
+  if (typeA === typeof b && (typeA === 'string' || typeA === 'bigint' || typeA === 'boolean')) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  const rankA = comparisonRank(a);
+  const rankB = comparisonRank(b);
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+
+  switch (rankA) {
+    case NUMERIC_RANK:
+      return compareNumeric(a as number | bigint, b as number | bigint);
+    case DATE_RANK:
+      return compareNumeric((a as Date).getTime(), (b as Date).getTime());
+    case SYMBOL_RANK:
+      return defaultComparator((a as symbol).description ?? '', (b as symbol).description ?? '');
+    case OBJECT_RANK:
+      // Objects with valueOf/toString still compare through them
+      return a < b ? -1 : a > b ? 1 : 0;
+    default:
+      return 0;
+  }
 }
 
 /**
@@ -29,31 +52,366 @@ export function defaultComparator<T>(a: T, b: T): number {
 export type EqualityFn<T> = (a: T, b: T) => boolean;
 
 /**
- * Default equality function using strict equality.
+ * Default equality function: strict equality, or the value's own
+ * [equalsSymbol] method for objects implementing the Hashable protocol.
  */
 export function defaultEquality<T>(a: T, b: T): boolean {
-  return a === b;
+  return a === b || (isHashable(a) && a[equalsSymbol](b));
 }
 
 /**
  * Hash function type for hash-based data structures.
+ * Values that are equal under the paired EqualityFn must hash the same.
  */
 export type HashFn<T> = (value: T) => number;
 
 /**
- * Simple hash function for primitive types.
+ * Symbol for the equality method of the Hashable protocol.
+ */
+export const equalsSymbol: unique symbol = Symbol.for('aethel.equals');
+
+/**
+ * Symbol for the hash method of the Hashable protocol.
+ */
+export const hashCodeSymbol: unique symbol = Symbol.for('aethel.hashCode');
+
+/**
+ * Protocol for value objects that define their own equality.
+ * Objects that are equal must return the same hash code.
+ *
+ * @example
+ * ```typescript
+ * class Point implements Hashable {
+ *   constructor(readonly x: number, readonly y: number) {}
+ *   [equalsSymbol](other: unknown): boolean {
+ *     return other instanceof Point && other.x === this.x && other.y === this.y;
+ *   }
+ *   [hashCodeSymbol](): number {
+ *     return Math.imul(this.x, 31) + this.y;
+ *   }
+ * }
+ * ```
+ */
+export interface Hashable {
+  [equalsSymbol](other: unknown): boolean;
+  [hashCodeSymbol](): number;
+}
+
+/**
+ * Checks if a value implements the Hashable protocol.
+ */
+export function isHashable(value: unknown): value is Hashable {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<Hashable>)[equalsSymbol] === 'function' &&
+    typeof (value as Partial<Hashable>)[hashCodeSymbol] === 'function'
+  );
+}
+
+/**
+ * Default hash function. Primitives hash by value; objects hash structurally
+ * (see structuralHash), so it is consistent with both defaultEquality and
+ * structuralEquals.
  */
 export function defaultHash<T>(value: T): number {
-  if (typeof value === 'number') return value;
-  if (typeof value === 'string') {
-    let hash = 0;
-    for (let i = 0; i < value.length; i++) {
-      hash = ((hash << 5) - hash) + value.charCodeAt(i);
-      hash |= 0; // Convert to 32-bit integer
+  if (typeof value === 'string') return hashString(value);
+  if (typeof value === 'number') return hashNumber(value);
+  return structuralHash(value);
+}
+
+/**
+ * Structural hash, consistent with structuralEquals.
+ * - Hashable objects use their own [hashCodeSymbol]
+ * - Arrays hash their elements in order
+ * - Plain objects, Maps and Sets hash their contents independently of order
+ * - Dates hash their timestamp; BigInts hash their full value
+ * - Other objects (class instances, functions) hash by identity
+ * Cycles are detected and hashed as a constant.
+ * Time Complexity: O(size of the value)
+ */
+export function structuralHash(value: unknown): number {
+  return hashValue(value, new Set());
+}
+
+/**
+ * Structural equality.
+ * - Primitives compare with SameValueZero (NaN equals NaN, 0 equals -0)
+ * - Hashable objects use their own [equalsSymbol]
+ * - Arrays compare elements in order
+ * - Plain objects compare own enumerable keys, in any order
+ * - Maps and Sets compare contents, with structurally equal keys matching
+ * - Dates compare timestamps
+ * - Other objects (class instances, functions) compare by identity
+ * Cyclic structures are supported.
+ */
+export function structuralEquals(a: unknown, b: unknown): boolean {
+  return equalValues(a, b, new Map());
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+const NUMERIC_RANK = 1;
+const DATE_RANK = 3;
+const OBJECT_RANK = 4;
+const SYMBOL_RANK = 5;
+
+/**
+ * Orders kinds of values for defaultComparator.
+ */
+function comparisonRank(value: unknown): number {
+  switch (typeof value) {
+    case 'boolean':
+      return 0;
+    case 'number':
+    case 'bigint':
+      return NUMERIC_RANK;
+    case 'string':
+      return 2;
+    case 'symbol':
+      return SYMBOL_RANK;
+    case 'undefined':
+      return 7;
+    default:
+      if (value === null) return 6;
+      return value instanceof Date ? DATE_RANK : OBJECT_RANK;
+  }
+}
+
+/**
+ * Compares numbers and bigints numerically, sorting NaN last.
+ */
+function compareNumeric(a: number | bigint, b: number | bigint): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  if (a == b) return 0; // Loose equality so that 1n and 1 compare equal
+
+  // Unordered: at least one side is NaN
+  const aNaN = typeof a === 'number' && Number.isNaN(a);
+  const bNaN = typeof b === 'number' && Number.isNaN(b);
+  if (aNaN && bNaN) return 0;
+  return aNaN ? 1 : -1;
+}
+
+const CYCLE_HASH = 0x3c6ef372;
+const NULL_HASH = 0x2c1b3c6d;
+const UNDEFINED_HASH = 0x1f3d5b79;
+const float64View = new DataView(new ArrayBuffer(8));
+const identityHashes = new WeakMap<object, number>();
+let nextIdentityHash = 1;
+
+/**
+ * 32-bit string hash (Java's String.hashCode).
+ */
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i);
+    hash |= 0; // Convert to 32-bit integer
+  }
+  return hash;
+}
+
+/**
+ * 32-bit integers hash to themselves; other numbers fold their float bits.
+ */
+function hashNumber(value: number): number {
+  if ((value | 0) === value) return value | 0;
+  if (Number.isNaN(value)) return 0x7ff80000;
+  float64View.setFloat64(0, value);
+  return float64View.getInt32(0) ^ float64View.getInt32(4);
+}
+
+/**
+ * Folds a bigint into 32 bits; values in int32 range match hashNumber.
+ */
+function hashBigInt(value: bigint): number {
+  if (BigInt.asIntN(32, value) === value) return Number(value);
+
+  let hash = value < 0n ? 1 : 0;
+  let remaining = value < 0n ? -value : value;
+  while (remaining > 0n) {
+    hash = (Math.imul(hash, 31) + Number(remaining & 0xffffffffn)) | 0;
+    remaining >>= 32n;
+  }
+  return hash;
+}
+
+/**
+ * Returns a stable per-object hash for objects compared by identity.
+ */
+function identityHash(value: object): number {
+  let hash = identityHashes.get(value);
+  if (hash === undefined) {
+    hash = Math.imul(nextIdentityHash++, 0x9e3779b1) | 0;
+    identityHashes.set(value, hash);
+  }
+  return hash;
+}
+
+/**
+ * Mixes the next hash into an ordered running hash.
+ */
+function combine(hash: number, next: number): number {
+  return (Math.imul(hash, 31) + next) | 0;
+}
+
+/**
+ * Checks for objects created by literals, Object.create(null) or JSON.parse.
+ */
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Hashes a value, tracking the containers being hashed to break cycles.
+ */
+function hashValue(value: unknown, ancestors: Set<object>): number {
+  switch (typeof value) {
+    case 'string':
+      return hashString(value);
+    case 'number':
+      return hashNumber(value);
+    case 'boolean':
+      return value ? 1 : 0;
+    case 'bigint':
+      return hashBigInt(value);
+    case 'undefined':
+      return UNDEFINED_HASH;
+    case 'symbol':
+      return combine(0x5bd1e995, hashString(value.description ?? ''));
+    case 'function':
+      return identityHash(value);
+  }
+
+  if (value === null || typeof value !== 'object') return NULL_HASH;
+  if (isHashable(value)) return value[hashCodeSymbol]() | 0;
+  if (value instanceof Date) return combine(0x1b873593, hashNumber(value.getTime()));
+
+  const isArray = Array.isArray(value);
+  if (!isArray && !(value instanceof Map) && !(value instanceof Set) && !isPlainObject(value)) {
+    return identityHash(value);
+  }
+
+  if (ancestors.has(value)) return CYCLE_HASH;
+  ancestors.add(value);
+
+  let hash: number;
+  if (isArray) {
+    hash = value.length;
+    for (const element of value) {
+      hash = combine(hash, hashValue(element, ancestors));
+    }
+  } else if (value instanceof Map) {
+    // Summing entry hashes makes the result independent of insertion order
+    hash = combine(0x27d4eb2f, value.size);
+    for (const [key, entry] of value) {
+      hash = (hash + combine(hashValue(key, ancestors), hashValue(entry, ancestors))) | 0;
+    }
+  } else if (value instanceof Set) {
+    hash = combine(0x165667b1, value.size);
+    for (const element of value) {
+      hash = (hash + hashValue(element, ancestors)) | 0;
+    }
+  } else {
+    const keys = Object.keys(value);
+    hash = combine(0x85ebca6b, keys.length);
+    for (const key of keys) {
+      hash = (hash + combine(hashString(key), hashValue(value[key], ancestors))) | 0;
     }
-    return hash;
   }
-  if (typeof value === 'boolean') return value ? 1 : 0;
-  // For objects, use a simple approach (not cryptographically secure)
-  return defaultHash(JSON.stringify(value));
-}
\ No newline at end of file
+
+  ancestors.delete(value);
+  return hash;
+}
+
+/**
+ * Compares two values structurally.
+ *
+ * @param inProgress - Pairs currently being compared; revisiting one means a
+ *   cycle, which is treated as equal so the comparison terminates.
+ */
+function equalValues(a: unknown, b: unknown, inProgress: Map<object, Set<object>>): boolean {
+  if (a === b || (a !== a && b !== b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  if (isHashable(a)) return a[equalsSymbol](b);
+  if (isHashable(b)) return b[equalsSymbol](a);
+
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && equalValues(a.getTime(), b.getTime(), inProgress);
+  }
+
+  let pending = inProgress.get(a);
+  if (pending?.has(b)) return true;
+  if (pending === undefined) {
+    pending = new Set();
+    inProgress.set(a, pending);
+  }
+  pending.add(b);
+
+  const result = equalContents(a, b, inProgress);
+  pending.delete(b);
+  return result;
+}
+
+/**
+ * Compares the contents of two containers of the same kind.
+ */
+function equalContents(a: object, b: object, inProgress: Map<object, Set<object>>): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!equalValues(a[i], b[i], inProgress)) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Map || b instanceof Map) {
+    if (!(a instanceof Map) || !(b instanceof Map) || a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (b.has(key)) {
+        if (!equalValues(value, b.get(key), inProgress)) return false;
+        continue;
+      }
+      let matched = false;
+      for (const [otherKey, otherValue] of b) {
+        if (equalValues(key, otherKey, inProgress) && equalValues(value, otherValue, inProgress)) {
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set || b instanceof Set) {
+    if (!(a instanceof Set) || !(b instanceof Set) || a.size !== b.size) return false;
+    for (const element of a) {
+      if (b.has(element)) continue;
+      let matched = false;
+      for (const other of b) {
+        if (equalValues(element, other, inProgress)) {
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) return false;
+    }
+    return true;
+  }
+
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  for (const key of keys) {
+    if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
+    if (!equalValues(a[key], b[key], inProgress)) return false;
+  }
+  return true;
+}